@@ -1,51 +1,195 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import SplashScreen from './SplashScreen';
 import HomeScreen from './HomeScreen';
 import ExperimentationScreen from './ExperimentationScreen';
 import MissionsScreen from './MissionsScreen';
+import HistoryScreen from './HistoryScreen';
 import TheoreticalGuide from './TheoreticalGuide';
+import LanguageSwitch from './LanguageSwitch';
+import { LocaleProvider } from './i18n';
+import { GuideContext } from './guide';
+import { MissionResult, bestResult, getMission } from './missions';
+import { Route, formatRoute, isDeepLink, parseRoute } from './routes';
+import { SavedRun, loadMissionResults, loadRun, saveMissionResults } from './storage';
 import './App.css';
 
 const App: React.FC = () => {
-  // Screen states: "splash", "home", "experiment", "missions"
-  const [screen, setScreen] = useState<'splash' | 'home' | 'experiment' | 'missions'>('splash');
-  const [showGuide, setShowGuide] = useState(false);
+  // The screen follows the URL's hash, so the browser's back button and
+  // shared links both work.
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+  // Arriving by a link goes straight to it; only a bare visit shows the splash.
+  const [splash, setSplash] = useState(() => !isDeepLink(window.location.hash));
+  // Set when the guide was opened from within the app, so closing it can go
+  // back instead of leaving an extra history entry.
+  const guideOpenedHere = useRef(false);
+  // Numbers of the experiment the guide was opened from, if any.
+  const [guideContext, setGuideContext] = useState<GuideContext>();
+  const [missionResults, setMissionResults] = useState<Record<string, MissionResult>>({});
+  const [missionResultsLoaded, setMissionResultsLoaded] = useState(false);
+  // Saved run reopened from the history screen.
+  const [openedRun, setOpenedRun] = useState<SavedRun | null>(null);
+
+  useEffect(() => {
+    const follow = () => {
+      const next = parseRoute(window.location.hash);
+      if (next.guide === undefined) {
+        guideOpenedHere.current = false;
+        setGuideContext(undefined);
+      }
+      setRoute(next);
+    };
+    window.addEventListener('hashchange', follow);
+    return () => window.removeEventListener('hashchange', follow);
+  }, []);
+
+  const navigate = (next: Route) => {
+    window.location.hash = formatRoute(next);
+  };
+
+  const replaceRoute = (next: Route) => {
+    window.history.replaceState(null, '', formatRoute(next));
+    setRoute(next);
+  };
+
+  useEffect(() => {
+    loadMissionResults().then(results => {
+      setMissionResults(prev => ({ ...results, ...prev }));
+      setMissionResultsLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (missionResultsLoaded) saveMissionResults(missionResults);
+  }, [missionResults, missionResultsLoaded]);
+
+  // A link to a saved run loads it from this browser's storage. Leaving the
+  // run forgets it, so coming back with the browser's buttons reads the copy
+  // its autosave last wrote rather than the one first opened.
+  const runId = route.screen === 'history' ? route.id : undefined;
+  useEffect(() => {
+    if (!runId) {
+      setOpenedRun(null);
+      return;
+    }
+    if (openedRun?.id === runId) return;
+    let current = true;
+    loadRun(runId).then(run => {
+      if (!current) return;
+      if (run) setOpenedRun(run);
+      else replaceRoute({ screen: 'history' });
+    });
+    return () => {
+      current = false;
+    };
+  }, [runId]);
+
+  const openRun = (run: SavedRun) => {
+    setOpenedRun(run);
+    navigate({ screen: 'history', id: run.id });
+  };
+
+  const recordMissionResult = (result: MissionResult) => {
+    setMissionResults(prev => ({
+      ...prev,
+      [result.missionId]: bestResult(prev[result.missionId], result),
+    }));
+  };
 
   // Automatically transition from splash to home after 3 seconds.
   useEffect(() => {
-    if (screen === 'splash') {
+    if (splash) {
       const timer = setTimeout(() => {
-        setScreen('home');
+        setSplash(false);
       }, 3000);
       return () => clearTimeout(timer);
     }
-  }, [screen]);
+  }, [splash]);
+
+  const openGuide = (section = '', context?: GuideContext) => {
+    guideOpenedHere.current = true;
+    setGuideContext(context);
+    navigate({ ...route, guide: section });
+  };
+
+  const closeGuide = () => {
+    setGuideContext(undefined);
+    if (guideOpenedHere.current) {
+      guideOpenedHere.current = false;
+      window.history.back();
+    } else {
+      replaceRoute({ ...route, guide: undefined });
+    }
+  };
+
+  const renderExperiment = (
+    key: string,
+    props: Partial<React.ComponentProps<typeof ExperimentationScreen>>,
+    back: Route,
+  ) => (
+    <ExperimentationScreen
+      key={key}
+      {...props}
+      onMissionProgress={recordMissionResult}
+      onBack={() => navigate(back)}
+      onShowGuide={openGuide}
+    />
+  );
 
   const renderScreen = () => {
-    switch (screen) {
-      case 'splash':
-        return <SplashScreen onGetStarted={() => setScreen('home')} />;
+    switch (route.screen) {
       case 'home':
-        return <HomeScreen onSelectMode={(mode) => setScreen(mode)} />;
+        return <HomeScreen onSelectMode={mode => navigate({ screen: mode })} />;
       case 'experiment':
+        // A changed link sets up a fresh cell; opening the guide over it does not.
+        return renderExperiment(
+          `free${formatRoute({ screen: 'experiment', params: route.params })}`,
+          { linkedParams: route.params },
+          { screen: 'home' },
+        );
+      case 'missions': {
+        const mission = route.id ? getMission(route.id) : undefined;
+        if (mission) {
+          return renderExperiment(mission.id, { mission }, { screen: 'missions' });
+        }
         return (
-          <ExperimentationScreen
-            onBack={() => setScreen('home')}
-            onShowGuide={() => setShowGuide(true)}
+          <MissionsScreen
+            onBack={() => navigate({ screen: 'home' })}
+            onStartMission={id => navigate({ screen: 'missions', id })}
+            results={missionResults}
           />
         );
-      case 'missions':
-        return <MissionsScreen onBack={() => setScreen('home')} />;
+      }
+      case 'history':
+        if (route.id && openedRun?.id === route.id) {
+          const mission = openedRun.missionId ? getMission(openedRun.missionId) : undefined;
+          return renderExperiment(
+            openedRun.id,
+            { mission, savedRun: openedRun, onSaved: setOpenedRun },
+            { screen: 'history' },
+          );
+        }
+        if (route.id) return null; // still loading
+        return <HistoryScreen onBack={() => navigate({ screen: 'home' })} onOpenRun={openRun} />;
       default:
         return null;
     }
   };
 
   return (
-    <div className="app-container">
-      {renderScreen()}
-      {showGuide && <TheoreticalGuide onClose={() => setShowGuide(false)} />}
-    </div>
+    <LocaleProvider>
+      <div className="app-container">
+        {splash ? <SplashScreen onGetStarted={() => setSplash(false)} /> : renderScreen()}
+        {!splash && route.guide !== undefined && (
+          <TheoreticalGuide
+            onClose={closeGuide}
+            section={route.guide || undefined}
+            context={guideContext}
+            onSelectSection={section => replaceRoute({ ...route, guide: section })}
+          />
+        )}
+        <LanguageSwitch />
+      </div>
+    </LocaleProvider>
   );
 };
 
@@ -1,105 +1,440 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
-    View, Text, Button, StyleSheet, Dimensions, ScrollView, Animated, SafeAreaView 
+    View, Text, Button, StyleSheet, Dimensions, ScrollView, Animated, Easing, SafeAreaView, TouchableOpacity, TextInput,
+    Platform
 } from 'react-native';
 import Slider from '@react-native-community/slider';
-import { LineChart } from 'react-native-chart-kit';
-import TheoreticalGuide from './TheoreticalGuide';
-
-interface Bubble {
-  id: number;
-  left: number; // Horizontal position within a tube as percentage (0–100)
-  side: 'left' | 'right'; // Indicates which tube the bubble appears in
-}
+import { captureRef } from 'react-native-view-shot';
+import HistoryChart from './HistoryChart';
+import SampleTable from './SampleTable';
+import FaradayAnalysis from './FaradayAnalysis';
+import SweepPanel from './SweepPanel';
+import PlatingPanel from './PlatingPanel';
+import WorkedCalculations from './WorkedCalculations';
+import {
+  DepositQuality,
+  PLATED_OBJECTS,
+  PlatedObject,
+  coatingQuality,
+  getPlatedObject,
+  platingResult,
+} from './plating';
+import { Balance, DigitalMeter, GasTube, Stopwatch, Weighing } from './InstrumentPanel';
+import { INSTRUMENTS, InstrumentId, measurementNoise, readInstrument } from './instruments';
+import { ELECTROLYTES, ION_LABELS, PRODUCTS, getElectrolyte } from './electrolytes';
+import { INDICATORS, beakerColor, getIndicator } from './indicators';
+import {
+  DEFAULT_GALVANIC_PRESET,
+  GALVANIC_PRESETS,
+  HALF_CELLS,
+  cellNotation,
+  getHalfCell,
+  halfCellElectrolyte,
+} from './galvanic';
+import {
+  ELECTRODE_MATERIALS,
+  ElectrodeMaterial,
+  DEFAULT_ELECTRODE,
+  ElectrodeSide,
+  getElectrodeMaterial,
+  initialElectrodeMass,
+} from './electrodes';
+import {
+  CellSetup,
+  CellType,
+  DEFAULT_PARAMS,
+  LoadType,
+  ReactionCurrent,
+  SALT_BRIDGE_IONS,
+  SaltBridgeState,
+  SupplyMode,
+  SimulationParams,
+  SimulationSample,
+  SIMULATION_STEP,
+  SOLUTION_VOLUME,
+  advanceSimulation,
+  beakerElectrolyte,
+  boilingPoint,
+  bridgeMigration,
+  cellConditions,
+  cellElectrics,
+  collectedGasVolume,
+  collectedGasVolumes,
+  concentration,
+  createSimulationState,
+  dryGasPressure,
+  electrodeReactions,
+  faradaicEfficiencies,
+  gasEvolutionRates,
+  heatFlows,
+  isBoiling,
+  isElectrolysing,
+  productUnit,
+  productionRates,
+  solutionPH,
+  transportNumbers,
+  waterVaporPressure,
+} from './simulation';
+import {
+  Mission,
+  MissionResult,
+  describeObjective,
+  evaluateMission,
+  missionParams,
+  scoreMission,
+} from './missions';
+import { GuideContext, guideContext } from './guide';
+import { linkParams, routeUrl } from './routes';
+import { NumberFormat, byId, useLocale } from './i18n';
+import { ReportFields, RunSummary, SavedRun, createRunId, listRuns, loadRun, saveRun } from './storage';
+import { buildReportHtml } from './report';
+import {
+  ChartSeries,
+  ExportError,
+  SERIES_COLORS,
+  amountPoints,
+  buildChartSvg,
+  exportChartPng,
+  exportTextFile,
+  fileSafeName,
+  printHtml,
+  productSeries,
+  recordedProducts,
+  runToJson,
+  samplesToCsv,
+} from './exportData';
 
 interface ExperimentationScreenProps {
   onBack: () => void;
+  mission?: Mission;
+  onMissionProgress?: (result: MissionResult) => void;
+  savedRun?: SavedRun; // resume a run from the history
+  onSaved?: (run: SavedRun) => void; // called with each copy written to storage
+  linkedParams?: Partial<SimulationParams>; // setup given by a shared link
+  onShowGuide?: (section?: string, context?: GuideContext) => void;
 }
 
-// FloatingBubble component: animates upward and fades out.
-const FloatingBubble: React.FC<{ left: number; side: string }> = ({ left, side }) => {
-  const translateY = useRef(new Animated.Value(0)).current;
-  const opacity = useRef(new Animated.Value(1)).current;
+// Autosave the run every this many seconds of simulation time at ×1; faster
+// playback saves as often in real time.
+const AUTOSAVE_INTERVAL = 10;
 
-  // Define parameters based on bubble type.
-  const bubbleSize = side === 'right' ? 10 : 20;
-  const animationDuration = side === 'right' ? 5000 : 3000;
-  const bubbleColor = side === 'right' ? 'black' : (side === 'left' ? 'rgba(173, 216, 230, 0.8)' : 'rgba(255, 255, 204, 0.8)');
+// Playback speeds: simulated seconds per real second.
+const SPEEDS = [1, 10, 60, 600];
+const speedOptions = SPEEDS.map(speed => ({ id: String(speed), label: `×${speed}` }));
+const TICK_INTERVAL = 250; // ms of real time between simulation updates
+// Bubbles and ions only speed up this much, so fast playback stays readable.
+const MAX_ANIMATION_SPEEDUP = 4;
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = Math.floor(seconds % 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(rest)}` : `${pad(minutes)}:${pad(rest)}`;
+};
+
+// Beaker geometry in px, matching the leftContainer and screw styles.
+const BEAKER_HEIGHT = 250;
+const ELECTRODE_TOP = 120;
+const ELECTRODE_HEIGHT = 100;
+const BUBBLE_FIELD_WIDTH = 60; // centred on the electrode, both faces
+
+// Bubbles on screen per mL of gas given off, and how long one takes to rise.
+const BUBBLES_PER_ML = 20;
+const BUBBLE_RISE_TIME = 2.5; // s
+const MAX_BUBBLES = 150; // per electrode
+const MIN_BUBBLE_SIZE = 4; // px
+const MAX_BUBBLE_SIZE = 14;
+const REFERENCE_GAS_RATE = 0.1; // mL/s, where bubbles are 8 px across
+
+// Repeatable spread in [0, 1) for particle i, so bubbles keep their place
+// from one render to the next.
+const scatter = (i: number, seed: number) => ((i + 1) * (0.6180339887 + seed * 0.1414213562)) % 1;
+
+// Gas bubbles rising from one electrode. They all ride a single looping clock,
+// each at its own phase, so hundreds of them cost one animation rather than a
+// timer, a state update and an animation apiece.
+const BubbleField: React.FC<{
+  position: 'left' | 'right';
+  gasRate: number; // mL/s given off at the electrode
+  speedup: number; // how much faster than real time the bubbles are shown
+  color: string;
+  surface: number; // px from the top of the beaker down to the liquid
+}> = ({ position, gasRate, speedup, color, surface }) => {
+  const clock = useRef(new Animated.Value(0)).current;
+  const count = Math.min(MAX_BUBBLES, Math.round(gasRate * speedup * BUBBLES_PER_ML * BUBBLE_RISE_TIME));
+  // Bubbles grow with the gas flow: their volume goes as the rate.
+  const size = Math.round(
+    Math.min(
+      MAX_BUBBLE_SIZE,
+      Math.max(MIN_BUBBLE_SIZE, 2 * MIN_BUBBLE_SIZE * Math.cbrt(gasRate / REFERENCE_GAS_RATE)),
+    ),
+  );
+  const top = Math.round(surface);
+  const active = count > 0;
 
-  // Each tube has proper width based on the container.
-  const tubeWidth = (Dimensions.get('window').width - 80) / 2;
-  const pixelLeft = (left / 100) * tubeWidth;
-  
   useEffect(() => {
-    Animated.parallel([
-      Animated.timing(translateY, {
-        toValue: -150,
-        duration: animationDuration,
+    if (!active) return;
+    const animation = Animated.loop(
+      Animated.timing(clock, {
+        toValue: 1,
+        duration: BUBBLE_RISE_TIME * 1000,
+        easing: Easing.linear,
         useNativeDriver: true,
       }),
-      Animated.timing(opacity, {
-        toValue: 0,
-        duration: animationDuration,
-        useNativeDriver: true,
+    );
+    clock.setValue(0);
+    animation.start();
+    return () => animation.stop();
+  }, [active]);
+
+  const bubbles = useMemo(
+    () =>
+      Array.from({ length: count }, (_, i) => {
+        const progress = Animated.modulo(Animated.add(clock, i / count), 1);
+        const start = Math.max(top, ELECTRODE_TOP + scatter(i, 1) * ELECTRODE_HEIGHT);
+        const sway = (scatter(i, 3) - 0.5) * 6;
+        return {
+          left: scatter(i, 2) * (BUBBLE_FIELD_WIDTH - size),
+          transform: [
+            { translateY: progress.interpolate({ inputRange: [0, 1], outputRange: [start, top] }) },
+            { translateX: progress.interpolate({ inputRange: [0, 0.5, 1], outputRange: [0, sway, 0] }) },
+          ],
+          // Bursts as it reaches the surface.
+          opacity: progress.interpolate({ inputRange: [0, 0.9, 1], outputRange: [0.9, 0.9, 0] }),
+        };
       }),
-    ]).start();
-  }, [translateY, opacity, animationDuration]);
+    [count, size, top],
+  );
 
+  if (!active) return null;
   return (
-    <Animated.View
-      style={[
-        styles.bubble,
-        {
-          width: bubbleSize,
-          height: bubbleSize,
-          borderRadius: bubbleSize / 2,
-          left: pixelLeft,
-          transform: [{ translateY }],
-          opacity,
-          backgroundColor: bubbleColor,
-        },
-      ]}
-    />
+    <View
+      pointerEvents="none"
+      style={[styles.bubbleField, position === 'left' ? styles.leftBubbleField : styles.rightBubbleField]}
+    >
+      {bubbles.map((bubble, i) => (
+        <Animated.View
+          key={i}
+          style={[
+            styles.bubble,
+            { width: size, height: size, borderRadius: size / 2, backgroundColor: color },
+            bubble,
+          ]}
+        />
+      ))}
+    </View>
   );
 };
 
-// MovingIon component for the salt bridge.
-const MovingIon: React.FC<{ initialPosition: number }> = ({ initialPosition }) => {
-  const position = useRef(new Animated.Value(initialPosition)).current;
-  
+// Points along the salt bridge arch, from the anode end (right) to the cathode
+// end (left), matching the saltBridge style (180 × 100).
+const ARCH_STEPS = 12;
+const ARCH_PROGRESS = Array.from({ length: ARCH_STEPS + 1 }, (_, i) => i / ARCH_STEPS);
+const ARCH_X = ARCH_PROGRESS.map(progress => 87 + 87 * Math.cos(Math.PI * progress));
+const ARCH_Y = ARCH_PROGRESS.map(progress => 94 - 94 * Math.sin(Math.PI * progress));
+
+// Seconds an ion carrying 1 A takes to cross the bridge on screen.
+const ION_CROSSING_TIME = 6;
+const MAX_CROSSING_TIME = 60;
+
+// MovingIon component for the salt bridge: loops along the arch, cations
+// towards the cathode and anions towards the anode.
+const MovingIon: React.FC<{
+  phase: number; // 0–1, spreads the ions along the arch
+  towards: ElectrodeSide;
+  crossingTime: number; // s, Infinity when no current flows
+  color: string;
+}> = ({ phase, towards, crossingTime, color }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+
   useEffect(() => {
-    position.setValue(initialPosition);
-  }, [initialPosition]);
-  
+    if (!Number.isFinite(crossingTime)) return;
+    const animation = Animated.loop(
+      Animated.timing(progress, {
+        toValue: 1,
+        duration: crossingTime * 1000,
+        easing: Easing.linear,
+        useNativeDriver: true,
+      }),
+    );
+    progress.setValue(0);
+    animation.start();
+    return () => animation.stop();
+  }, [crossingTime]);
+
+  const along = Animated.modulo(Animated.add(progress, phase), 1);
+  const xs = towards === 'cathode' ? ARCH_X : [...ARCH_X].reverse();
+  const ys = towards === 'cathode' ? ARCH_Y : [...ARCH_Y].reverse();
   return (
     <Animated.View
       style={[
         styles.ion,
         {
-          left: position,
-          backgroundColor: '#FFCC00',
+          backgroundColor: color,
+          transform: [
+            { translateX: along.interpolate({ inputRange: ARCH_PROGRESS, outputRange: xs }) },
+            { translateY: along.interpolate({ inputRange: ARCH_PROGRESS, outputRange: ys }) },
+          ],
         },
       ]}
     />
   );
 };
 
-// Updated Screw component remains unchanged in implementation:
-const Screw: React.FC<{ position: 'left' | 'right' }> = ({ position }) => (
-  <View style={[
-    styles.screw, 
-    position === 'left' ? styles.leftScrew : styles.rightScrew
-  ]}>
-    <Text style={styles.screwText}>C</Text>
+// Screw (electrode): thins as an active anode dissolves and gains a coloured
+// coat as metal is deposited on it. Tapping it opens the guide.
+const Screw: React.FC<{
+  position: 'left' | 'right';
+  material: ElectrodeMaterial;
+  mass: number;
+  depositColor?: string;
+  onPress?: () => void;
+}> = ({ position, material, mass, depositColor, onPress }) => {
+  const startMass = initialElectrodeMass(material);
+  const remaining = Math.min(1, mass / startMass);
+  const deposited = Math.max(0, mass - startMass);
+  return (
+    <TouchableOpacity onPress={onPress} disabled={!onPress} style={[
+      styles.screw, 
+      position === 'left' ? styles.leftScrew : styles.rightScrew,
+      {
+        width: Math.max(4, 30 * Math.sqrt(remaining)),
+        backgroundColor: material.color,
+      },
+      depositColor && deposited > 0 && {
+        borderColor: depositColor,
+        borderWidth: 1 + Math.min(6, deposited * 2),
+      },
+    ]}>
+      <Text style={styles.screwText}>{material.symbol}</Text>
+    </TouchableOpacity>
+  );
+};
+
+// Coating reaches full colour over the first micrometres, then only thickens.
+const FULL_COVER_THICKNESS = 2; // µm
+const BURNT_DEPOSIT_COLOR = '#3E2723';
+
+// Object hung as the cathode when electroplating, with its coating drawn as a
+// layer of the deposited metal. A burnt deposit turns dark, a rough one patchy.
+const PlatedItem: React.FC<{
+  object: PlatedObject;
+  material: ElectrodeMaterial;
+  thickness: number; // µm
+  coatColor?: string;
+  quality: DepositQuality;
+  onPress?: () => void;
+}> = ({ object, material, thickness, coatColor, quality, onPress }) => {
+  const parts = {
+    key: [styles.keyHead, styles.keyShaft, styles.keyTooth],
+    coin: [styles.coin],
+    spoon: [styles.spoonHandle, styles.spoonBowl],
+  }[object.shape];
+  const coated = !!coatColor && thickness > 0;
+  const color = quality === 'burnt' ? BURNT_DEPOSIT_COLOR : coatColor;
+  return (
+    <TouchableOpacity onPress={onPress} disabled={!onPress} style={[styles.platedItem, styles.leftScrew]}>
+      {parts.map((part, index) => (
+        <View
+          key={index}
+          style={[
+            styles.platedPart,
+            part,
+            { backgroundColor: material.color },
+            coated && {
+              borderColor: color,
+              borderWidth: 1 + Math.min(4, thickness / 10),
+              borderStyle: quality === 'rough' ? 'dashed' : 'solid',
+            },
+          ]}
+        >
+          {coated && (
+            <View
+              style={[
+                styles.platedCoat,
+                { backgroundColor: color, opacity: Math.min(1, thickness / FULL_COVER_THICKNESS) },
+              ]}
+            />
+          )}
+        </View>
+      ))}
+    </TouchableOpacity>
+  );
+};
+
+// Row of selectable chips used for the solution and electrode pickers.
+const OptionChips: React.FC<{
+  options: { id: string; label: string }[];
+  selected: string;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}> = ({ options, selected, onSelect, disabled }) => (
+  <View style={[styles.optionRow, disabled && styles.sliderDisabled]}>
+    {options.map(option => (
+      <TouchableOpacity
+        key={option.id}
+        style={[styles.optionChip, option.id === selected && styles.optionChipActive]}
+        onPress={() => onSelect(option.id)}
+        disabled={disabled}
+      >
+        <Text style={[styles.optionText, option.id === selected && styles.optionTextActive]}>
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
   </View>
 );
 
-// Modified Battery component - now only contains the accumulator and wires
-const Battery: React.FC = () => (
-  <View style={styles.batteryArea}> // batteryArea will position this block
+const formatMassChange = (grams: number, n: NumberFormat) =>
+  `${grams >= 0 ? '+' : '−'}${n(Math.abs(grams * 1000), 1)} mg`;
+
+// Labelled slider for one numeric parameter of the experiment.
+const ParameterSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  // Called once the thumb is let go, for settings that rebuild the cell.
+  onChangeComplete?: (value: number) => void;
+  disabled?: boolean;
+}> = ({ label, value, min, max, step, onChange, onChangeComplete, disabled }) => (
+  <View style={[styles.sliderContainer, disabled && styles.sliderDisabled]}>
+    <Text style={styles.controlLabel}>{label}</Text>
+    <Slider
+      style={styles.slider}
+      minimumValue={min}
+      maximumValue={max}
+      step={step}
+      value={value}
+      onValueChange={onChange}
+      onSlidingComplete={onChangeComplete}
+      disabled={disabled}
+      minimumTrackTintColor="#007BFF"
+      maximumTrackTintColor="#ccc"
+      thumbTintColor="#009688"
+    />
+  </View>
+);
+
+// Reactions carrying less of the current than this are not shown.
+const SIGNIFICANT_SHARE = 0.01;
+
+const CELSIUS_OFFSET = 273.15;
+const ATM_TO_MMHG = 760;
+// °C above which the cell is warned about as running hot.
+const WARM_CELL = 50;
+const THERMOMETER_MAX = 110; // °C at the top of the scale
+
+// Modified Battery component - now only contains the accumulator and wires.
+// A galvanic cell shows its load or voltmeter in the same place.
+const Battery: React.FC<{ label: string }> = ({ label }) => (
+  <View style={styles.batteryArea}>
     {/* Accumulator */}
     <View style={styles.batteryBlock}>
-      <Text style={styles.batteryLabel}>Acumulator</Text>
+      <Text style={styles.batteryLabel}>{label}</Text>
     </View>
 
     {/* Wires connecting accumulator to electrodes, positioned absolutely within batteryArea */}
@@ -108,21 +443,102 @@ const Battery: React.FC = () => (
   </View>
 );
 
-// New separate SaltBridge component
-const SaltBridge: React.FC = () => (
-  <View style={styles.saltBridgeContainer}>
-    <Text style={styles.saltBridgeLabel}>Punte de Sare</Text>
-    <View style={styles.saltBridge}>
-      {/* Ions moving in the salt bridge */}
-      <MovingIon initialPosition={20} />
-      <MovingIon initialPosition={80} />
-      <MovingIon initialPosition={140} />
+const IONS_PER_KIND = 3;
+const CATION_COLOR = '#E53935';
+const ANION_COLOR = '#1E88E5';
+
+// Salt bridge with its ions drifting at a speed set by the current each of them
+// carries (the current times its transport number).
+const SaltBridge: React.FC<{ state: SaltBridgeState; current: number; speed: number; onPress?: () => void }> = ({
+  state,
+  current,
+  speed,
+  onPress,
+}) => {
+  const { s } = useLocale();
+  if (state === 'removed') {
+    return (
+      <View style={styles.saltBridgeContainer}>
+        <Text style={styles.saltBridgeLabel} onPress={onPress}>
+          {s.experiment.bridgeRemoved}
+        </Text>
+      </View>
+    );
+  }
+  const transport = transportNumbers();
+  // Ions drift faster when the run plays faster, up to a readable limit.
+  const drift = (share: number) => current * share * Math.min(speed, MAX_ANIMATION_SPEEDUP);
+  const crossingTime = (share: number) =>
+    drift(share) > ION_CROSSING_TIME / MAX_CROSSING_TIME ? ION_CROSSING_TIME / drift(share) : Infinity;
+  return (
+    <View style={styles.saltBridgeContainer}>
+      <Text style={styles.saltBridgeLabel} onPress={onPress}>
+        {state === 'dried'
+          ? s.experiment.bridgeDried
+          : s.experiment.bridgeIons(ION_LABELS[SALT_BRIDGE_IONS.cation], ION_LABELS[SALT_BRIDGE_IONS.anion])}
+      </Text>
+      <View style={[styles.saltBridge, state === 'dried' && styles.saltBridgeDried]}>
+        {state === 'wet' &&
+          Array.from({ length: IONS_PER_KIND }, (_, i) => (
+            <React.Fragment key={i}>
+              <MovingIon
+                phase={i / IONS_PER_KIND}
+                towards="cathode"
+                crossingTime={crossingTime(transport.cation)}
+                color={CATION_COLOR}
+              />
+              <MovingIon
+                phase={(i + 0.5) / IONS_PER_KIND}
+                towards="anode"
+                crossingTime={crossingTime(transport.anion)}
+                color={ANION_COLOR}
+              />
+            </React.Fragment>
+          ))}
+      </View>
     </View>
-  </View>
-);
+  );
+};
+
+// Reactions at one electrode, with their share of the current when it is split.
+const ReactionList: React.FC<{ shares: ReactionCurrent[]; current: number }> = ({ shares, current }) => {
+  const { n } = useLocale();
+  return (
+    <>
+      {shares.map(share => (
+        <Text key={share.reaction.equation} style={styles.reactionText}>
+          {share.reaction.equation}
+          {shares.length > 1 ? ` (${n((share.current / current) * 100)}%)` : ''}
+        </Text>
+      ))}
+    </>
+  );
+};
+
+// Thermometer dipped into the cell, reading the solution's temperature.
+const Thermometer: React.FC<{ temperature: number; warning: boolean }> = ({ temperature, warning }) => {
+  const { n } = useLocale();
+  const celsius = temperature - CELSIUS_OFFSET;
+  const fill = Math.min(1, Math.max(0, celsius / THERMOMETER_MAX));
+  return (
+    <View style={styles.thermometer}>
+      <Text style={[styles.thermometerLabel, warning && styles.thermometerWarning]}>
+        {n(celsius, 1)} °C
+      </Text>
+      <View style={styles.thermometerTube}>
+        <View style={[styles.thermometerColumn, { height: `${fill * 100}%` }]} />
+      </View>
+      <View style={styles.thermometerBulb} />
+    </View>
+  );
+};
 
-const GasLabel: React.FC<{ position: 'left' | 'right'; text: string }> = ({ position, text }) => (
-  <Text style={[
+const GasLabel: React.FC<{ position: 'left' | 'right'; text: string; onPress?: () => void }> = ({
+  position,
+  text,
+  onPress,
+}) => (
+  <Text onPress={onPress} style={[
     styles.gasLabel, 
     position === 'left' ? styles.leftGasLabel : styles.rightGasLabel
   ]}>
@@ -130,73 +546,492 @@ const GasLabel: React.FC<{ position: 'left' | 'right'; text: string }> = ({ posi
   </Text>
 );
 
-const ExperimentationScreen: React.FC<ExperimentationScreenProps> = ({ onBack }) => {
-  const [voltage, setVoltage] = useState<number>(5);
-  const [current, setCurrent] = useState<number>(0.5);
-  const [bubbles, setBubbles] = useState<Bubble[]>([]);
-  const [showGuide, setShowGuide] = useState<boolean>(false);
+const ExperimentationScreen: React.FC<ExperimentationScreenProps> = ({
+  onBack,
+  mission,
+  onMissionProgress,
+  savedRun,
+  onSaved,
+  linkedParams,
+  onShowGuide,
+}) => {
+  const { s, n } = useLocale();
+  const supplyModeOptions = (['voltage', 'current'] as SupplyMode[]).map(id => ({
+    id,
+    label: s.experiment.supplyModes[id],
+  }));
+  const gasCollectionOptions = (['dry', 'water'] as const).map(id => ({
+    id,
+    label: s.experiment.gasCollectionModes[id],
+  }));
+  const saltBridgeOptions = (['wet', 'dried', 'removed'] as SaltBridgeState[]).map(id => ({
+    id,
+    label: s.experiment.saltBridgeStates[id],
+  }));
+  const indicatorOptions = [
+    { id: 'none', label: s.experiment.noIndicator },
+    ...INDICATORS.map(indicator => ({ id: indicator.id, label: byId(s.indicators, indicator.id) })),
+  ];
+  const noiseOptions = (['noisy', 'exact'] as const).map(id => ({ id, label: s.experiment.readingModes[id] }));
+  const cellTypeOptions = (['electrolysis', 'galvanic'] as CellType[]).map(id => ({
+    id,
+    label: s.experiment.cellTypes[id],
+  }));
+  const loadOptions = (['resistor', 'voltmeter'] as LoadType[]).map(id => ({ id, label: s.experiment.loads[id] }));
+  const presetOptions = GALVANIC_PRESETS.map(preset => ({ id: preset.id, label: byId(s.galvanicPresets, preset.id) }));
+  const halfCellOptions = HALF_CELLS.map(halfCell => {
+    const material = getElectrodeMaterial(halfCell.material);
+    const formula = byId(s.electrolytes, halfCellElectrolyte(material.id).id).formula;
+    return { id: material.id, label: `${material.symbol} / ${formula.replace(/ \(.*\)$/, '')}` };
+  });
+  const electrolyteOptions = ELECTROLYTES.map(option => ({
+    id: option.id,
+    label: byId(s.electrolytes, option.id).formula,
+  }));
+  const materialOptions = ELECTRODE_MATERIALS.map(option => ({
+    id: option.id,
+    label: `${option.symbol} – ${byId(s.materials, option.id)}`,
+  }));
+  const platedObjectOptions = [
+    { id: '', label: s.experiment.plainElectrode },
+    ...PLATED_OBJECTS.map(object => ({ id: object.id, label: byId(s.platedObjects, object.id) })),
+  ];
+  const materialName = (material: ElectrodeMaterial) => byId(s.materials, material.id);
+
+  // Saved runs continue where they were left; missions start from their own
+  // setup and free experimentation from the defaults or a shared link.
+  const initialParams =
+    savedRun?.params ?? (mission ? missionParams(mission) : { ...DEFAULT_PARAMS, ...linkedParams });
+  const [setup, setSetup] = useState<CellSetup>({
+    cell: initialParams.cell ?? 'electrolysis',
+    electrolyte: initialParams.electrolyte,
+    cathodeMaterial: initialParams.cathodeMaterial,
+    anodeMaterial: initialParams.anodeMaterial,
+    ionConcentrations: initialParams.ionConcentrations ?? DEFAULT_PARAMS.ionConcentrations,
+    platedObject: initialParams.platedObject,
+  });
+  const [mode, setMode] = useState<SupplyMode>(initialParams.mode);
+  const [voltage, setVoltage] = useState<number>(initialParams.voltage);
+  const [current, setCurrent] = useState<number>(initialParams.current);
+  const [electrodeArea, setElectrodeArea] = useState<number>(initialParams.electrodeArea);
+  const [electrodeDistance, setElectrodeDistance] = useState<number>(initialParams.electrodeDistance);
+  const [temperature, setTemperature] = useState<number>(initialParams.temperature);
+  const [pressure, setPressure] = useState<number>(initialParams.pressure);
+  const [collectOverWater, setCollectOverWater] = useState<boolean>(initialParams.collectOverWater ?? false);
+  const [saltBridge, setSaltBridge] = useState<SaltBridgeState>(initialParams.saltBridge ?? 'wet');
+  const [load, setLoad] = useState<LoadType>(initialParams.load ?? DEFAULT_PARAMS.load);
+  const [loadResistance, setLoadResistance] = useState<number>(
+    initialParams.loadResistance ?? DEFAULT_PARAMS.loadResistance,
+  );
+  const [indicatorId, setIndicatorId] = useState<string>('none');
+  const [playing, setPlaying] = useState<boolean>(true);
+  const [speed, setSpeed] = useState<number>(1);
+  // Instruments on the bench: readings scatter like real ones unless turned off.
+  const [noisyReadings, setNoisyReadings] = useState<boolean>(true);
+  const [stopwatch, setStopwatch] = useState({ elapsed: 0, startedAt: null as number | null, presses: 0 });
+  const [weighings, setWeighings] = useState<Weighing[]>([]);
+  // Gas already in the tubes when they were last refilled with solution.
+  const [tubeZero, setTubeZero] = useState<Record<ElectrodeSide, number>>({ cathode: 0, anode: 0 });
   
-  // Data tracking for the graph.
-  const [time, setTime] = useState<number>(0);
-  const [hydrogenData, setHydrogenData] = useState<number[]>([]);
-  const [oxygenData, setOxygenData] = useState<number[]>([]);
-
-  const productionFactor = 10;
-  const faraday = 96485;
-  const gasConstant = 0.0821; // L·atm/(mol·K)
-  const temperature = 298; // K (25°C)
-  const pressure = 1; // atm
-
-  // Calculate gas production rate in mL/s
-  const calculateGasRate = (current: number, moles: number) => {
-    const volume = (moles * gasConstant * temperature) / pressure;
-    return volume * 1000; // Convert to mL
+  // Simulation state and the samples recorded for the graph.
+  const [run, setRun] = useState(() => ({
+    state: savedRun?.state ?? createSimulationState(initialParams),
+    samples: savedRun?.samples ?? ([] as SimulationSample[]),
+  }));
+
+  // Identity of the run in local storage.
+  const newRunInfo = () => ({
+    id: createRunId(),
+    name: `${mission ? byId(s.missionTexts, mission.id).title : s.experiment.defaultRunName} – ${new Date().toLocaleString(
+      s.language.locale,
+    )}`,
+    createdAt: Date.now(),
+  });
+  const [runInfo, setRunInfo] = useState(() =>
+    savedRun ? { id: savedRun.id, name: savedRun.name, createdAt: savedRun.createdAt } : newRunInfo(),
+  );
+  const [notes, setNotes] = useState<string>(savedRun?.notes ?? '');
+  const [report, setReport] = useState<ReportFields>(
+    savedRun?.report ?? { student: '', hypothesis: '', conclusion: '' },
+  );
+  const [finished, setFinished] = useState<boolean>(savedRun?.finished ?? false);
+  const lastSavedTime = useRef<number>(run.state.time);
+
+  // Missions are all electrolysis, so the cell type stays put during one.
+  const isLocked = (key: keyof SimulationParams) =>
+    !!mission && (key === 'cell' || mission.locked.includes(key));
+
+  const params: SimulationParams = {
+    ...DEFAULT_PARAMS,
+    ...setup,
+    mode,
+    voltage,
+    current,
+    electrodeArea,
+    electrodeDistance,
+    temperature,
+    pressure,
+    collectOverWater,
+    saltBridge,
+    load,
+    loadResistance,
+  };
+  const galvanic = setup.cell === 'galvanic';
+  const electrolyte = getElectrolyte(setup.electrolyte);
+  const cathodeMaterial = getElectrodeMaterial(setup.cathodeMaterial);
+  const anodeMaterial = getElectrodeMaterial(setup.anodeMaterial);
+  const platedObject = galvanic ? undefined : getPlatedObject(setup.platedObject);
+  const reactions = electrodeReactions(params);
+  const cathodeProduct = PRODUCTS[reactions.cathode.product];
+  const anodeProduct = PRODUCTS[reactions.anode.product];
+  const electrics = cellElectrics(run.state, params);
+  // Reactions taking a noticeable share of the current at each electrode, one
+  // per product (H⁺ and water reduction both give H₂); with no current flowing,
+  // the main reaction stands in.
+  const activeReactions = (side: ElectrodeSide): ReactionCurrent[] => {
+    const byProduct: ReactionCurrent[] = [];
+    electrics.reactions[side].forEach(share => {
+      const same = byProduct.find(entry => entry.reaction.product === share.reaction.product);
+      if (same) same.current += share.current;
+      else byProduct.push({ ...share });
+    });
+    const shares = byProduct.filter(
+      share => share.current >= SIGNIFICANT_SHARE * electrics.current && share.current > 0,
+    );
+    return shares.length ? shares : [{ reaction: reactions[side], current: 0 }];
+  };
+  const sideReactions = { cathode: activeReactions('cathode'), anode: activeReactions('anode') };
+  const sideProducts = (side: ElectrodeSide) =>
+    sideReactions[side]
+      .map(share => PRODUCTS[share.reaction.product])
+      .filter((product, index, list) => list.indexOf(product) === index);
+  const cathodeGas = sideProducts('cathode').find(product => product.gas);
+  const anodeGas = sideProducts('anode').find(product => product.gas);
+  const { solutions, volumes } = run.state;
+  const pH = {
+    cathode: solutionPH(solutions.cathode, volumes.cathode),
+    anode: solutionPH(solutions.anode, volumes.anode),
   };
+  // Indicators only make sense in water.
+  const molten = !galvanic && electrolyte.molten;
+  const indicator = molten ? undefined : getIndicator(indicatorId);
+  const beakerColors = {
+    cathode: beakerColor(beakerElectrolyte(params, 'cathode'), solutions.cathode, volumes.cathode, pH.cathode, indicator),
+    anode: beakerColor(beakerElectrolyte(params, 'anode'), solutions.anode, volumes.anode, pH.anode, indicator),
+  };
+  // Temperature and gases are those of the solution, which warms as it runs.
+  const conditions = cellConditions(run.state, params);
+  const heat = heatFlows(run.state, params, electrics);
+  const boiling = isBoiling(run.state, params);
+  const cellCelsius = run.state.temperature - CELSIUS_OFFSET;
+  // The liquid level drops as water boils off or is split.
+  const levelFraction = (side: ElectrodeSide) => Math.max(0, Math.min(1, 1 - volumes[side] / SOLUTION_VOLUME));
+  const solutionTop = (side: ElectrodeSide) => `${levelFraction(side) * 100}%` as const;
+  const surfaceLevel = (side: ElectrodeSide) => levelFraction(side) * BEAKER_HEIGHT;
+  const missionStatus = mission ? evaluateMission(mission, run.state, run.samples, params) : undefined;
+  const missionResult = mission && missionStatus ? scoreMission(mission, missionStatus) : undefined;
+  const missionOver = !!missionStatus && (missionStatus.complete || missionStatus.failed);
+  const running = isElectrolysing(electrics) && !missionOver && !finished;
+  // Bubbling follows each electrode's gas output while the run plays.
+  const bubbling = running && playing;
+  const gasRates = gasEvolutionRates(run.state, params);
+  const bubbleSpeedup = Math.min(speed, MAX_ANIMATION_SPEEDUP);
+
+  // Runs the cell forward by whole simulation steps, recording every one.
+  const advance = (steps: number) =>
+    setRun(prev => {
+      const next = advanceSimulation(prev.state, params, steps);
+      return { state: next.state, samples: prev.samples.concat(next.samples) };
+    });
 
   useEffect(() => {
-    if (voltage > 1 && current > 0.1) {
-      const bubbleInterval = setInterval(() => {
-        const newBubble: Bubble = {
-          id: Date.now(),
-          left: Math.random() * 80 + 10, // random horizontal position (10%-90%)
-          side: Math.random() < 0.5 ? 'left' : 'right',
-        };
-        setBubbles(prev => [...prev, newBubble]);
-      }, 1000);
-      return () => clearInterval(bubbleInterval);
-    }
-  }, [voltage, current]);
-  
+    if (!running || !playing) return;
+    // Steps due each tick; at low speeds the fractions add up over several ticks.
+    let due = 0;
+    const trackingInterval = setInterval(() => {
+      due += (speed * TICK_INTERVAL) / 1000 / SIMULATION_STEP;
+      const steps = Math.floor(due);
+      due -= steps;
+      if (steps) advance(steps);
+    }, TICK_INTERVAL);
+    return () => clearInterval(trackingInterval);
+  }, [
+    running,
+    playing,
+    speed,
+    mode,
+    voltage,
+    current,
+    electrodeArea,
+    electrodeDistance,
+    temperature,
+    pressure,
+    collectOverWater,
+    saltBridge,
+    load,
+    loadResistance,
+    setup,
+  ]);
+
   useEffect(() => {
-    const removeInterval = setInterval(() => {
-      setBubbles(prev => prev.filter(bubble => Date.now() - bubble.id < 3000));
-    }, 500);
-    return () => clearInterval(removeInterval);
-  }, []);
-  
+    if (missionResult && onMissionProgress) onMissionProgress(missionResult);
+  }, [missionResult?.progress, missionResult?.completed]);
+
+  const currentRun = (): SavedRun => ({
+    ...runInfo,
+    updatedAt: Date.now(),
+    params,
+    state: run.state,
+    samples: run.samples,
+    notes,
+    finished,
+    missionId: mission?.id,
+    report,
+  });
+
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Our own export failures come as codes to be put in words; the rest, such
+  // as a full localStorage, carry the platform's message.
+  const errorMessage = (error: unknown) =>
+    error instanceof ExportError
+      ? s.experiment.exportErrors[error.code]
+      : error instanceof Error
+        ? error.message
+        : String(error);
+
+  // Never rejects: a failed save, such as a full localStorage, is shown under
+  // the Save button and the next autosave tries again.
+  const persistRun = (changes: Partial<SavedRun> = {}) => {
+    // Nothing worth keeping until the cell has run or the student wrote notes
+    // or filled in the report.
+    const written = notes || report.student || report.hypothesis || report.conclusion;
+    if (!run.samples.length && !written) return Promise.resolve();
+    lastSavedTime.current = run.state.time;
+    const saved = { ...currentRun(), ...changes };
+    return saveRun(saved).then(
+      () => {
+        setSaveError(null);
+        onSaved?.(saved);
+      },
+      error => setSaveError(errorMessage(error)),
+    );
+  };
+
   useEffect(() => {
-    const trackingInterval = setInterval(() => {
-      if (voltage > 1 && current > 0.1) {
-        const hydrogenRate = calculateGasRate(current, current / (2 * faraday));
-        const oxygenRate = calculateGasRate(current, current / (4 * faraday));
-        setHydrogenData(prev => [...prev, (prev.slice(-1)[0] || 0) + hydrogenRate]);
-        setOxygenData(prev => [...prev, (prev.slice(-1)[0] || 0) + oxygenRate]);
-        setTime(prev => prev + 1);
+    if (run.state.time - lastSavedTime.current >= AUTOSAVE_INTERVAL * speed) persistRun();
+  }, [run.state.time]);
+
+  const handleBack = () => {
+    persistRun().finally(onBack);
+  };
+
+  const toggleFinished = () => {
+    setFinished(!finished);
+    persistRun({ finished: !finished });
+  };
+
+  const chartRef = useRef<View>(null);
+  const [chartView, setChartView] = useState<'chart' | 'table' | 'sweep'>('chart');
+  // Saved runs drawn on top of this one for comparison.
+  const [savedRuns, setSavedRuns] = useState<RunSummary[]>([]);
+  const [overlayRuns, setOverlayRuns] = useState<SavedRun[]>([]);
+  const [overlayProduct, setOverlayProduct] = useState<string>('');
+
+  useEffect(() => {
+    listRuns().then(setSavedRuns);
+  }, []);
+
+  const toggleOverlay = async (id: string) => {
+    if (overlayRuns.some(saved => saved.id === id)) {
+      setOverlayRuns(overlayRuns.filter(saved => saved.id !== id));
+      return;
+    }
+    const saved = await loadRun(id);
+    if (saved) setOverlayRuns(prev => [...prev, saved]);
+  };
+
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const productName = (id: string) => byId(s.products, id);
+
+  const exportRun = async (format: 'csv' | 'json' | 'svg' | 'png') => {
+    const baseName = fileSafeName(runInfo.name);
+    const chartSize = { width: 800, height: 450 };
+    const chartSvg = () =>
+      buildChartSvg(productSeries(run.samples, productName), {
+        title: runInfo.name,
+        xLabel: s.experiment.timeAxis,
+        yLabel: s.experiment.productionAxis,
+        ...chartSize,
+      });
+    setExportError(null);
+    try {
+      switch (format) {
+        case 'csv':
+          return await exportTextFile(`${baseName}.csv`, samplesToCsv(run.samples), 'text/csv');
+        case 'json':
+          return await exportTextFile(`${baseName}.json`, runToJson(currentRun()), 'application/json');
+        case 'svg':
+          return await exportTextFile(`${baseName}.svg`, chartSvg(), 'image/svg+xml');
+        case 'png':
+          return await exportChartPng(`${baseName}.png`, chartSvg(), chartSize, () =>
+            captureRef(chartRef, { format: 'png', result: 'tmpfile' }),
+          );
       }
-    }, 1000);
-    return () => clearInterval(trackingInterval);
-  }, [voltage, current]);
+    } catch (error) {
+      setExportError(errorMessage(error));
+    }
+  };
+
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  // The report is printed from the run as it stands, which is saved first so
+  // that the student's fields are kept with it.
+  const generateReport = async () => {
+    setReportError(null);
+    try {
+      await persistRun();
+      await printHtml(`${fileSafeName(runInfo.name)}.html`, buildReportHtml(currentRun(), electrics, s, n));
+    } catch (error) {
+      setReportError(errorMessage(error));
+    }
+  };
+
+  // Starts a new run in storage; the previous one stays in the history.
+  const resetRun = (next: SimulationParams) => {
+    setRun({ state: createSimulationState(next), samples: [] });
+    setStopwatch({ elapsed: 0, startedAt: null, presses: 0 });
+    setWeighings([]);
+    setTubeZero({ cathode: 0, anode: 0 });
+    setRunInfo(newRunInfo());
+    setFinished(false);
+    lastSavedTime.current = 0;
+  };
+
+  // Starts the same experiment over from a fresh cell.
+  const restartRun = () => {
+    persistRun();
+    resetRun(params);
+  };
+
+  // The room temperature is where the cell starts: before it has run, the
+  // solution follows the slider; afterwards it only sets what it cools towards.
+  const changeTemperature = (value: number) => {
+    setTemperature(value);
+    if (run.state.time === 0) {
+      setRun(prev => ({ ...prev, state: { ...prev.state, temperature: value } }));
+    }
+  };
+
+  // Ion concentrations shown while their slider is dragged; the cell is only
+  // rebuilt with them when it is let go.
+  const [ionDraft, setIonDraft] = useState<Partial<Record<ElectrodeSide, number>>>({});
+
+  // A different solution or electrode means a fresh cell.
+  const changeSetup = (change: Partial<CellSetup>) => {
+    const next = { ...setup, ...change };
+    persistRun();
+    setSetup(next);
+    resetRun({ ...params, ...next });
+  };
+
+  // Each kind of cell starts from electrodes that suit it.
+  const switchCell = (cell: CellType) =>
+    changeSetup(
+      cell === 'galvanic'
+        ? {
+            cell,
+            cathodeMaterial: DEFAULT_GALVANIC_PRESET.cathodeMaterial,
+            anodeMaterial: DEFAULT_GALVANIC_PRESET.anodeMaterial,
+            platedObject: undefined,
+          }
+        : { cell, cathodeMaterial: DEFAULT_ELECTRODE, anodeMaterial: DEFAULT_ELECTRODE, platedObject: undefined },
+    );
+
+  // Plating hangs an object as the cathode: its metal and its surface area
+  // replace those of the rod.
+  const choosePlatedObject = (id: string) => {
+    const object = getPlatedObject(id);
+    if (object) setElectrodeArea(object.area);
+    changeSetup(object ? { platedObject: object.id, cathodeMaterial: object.material } : { platedObject: undefined });
+  };
+
+  const activePreset = GALVANIC_PRESETS.find(
+    preset =>
+      preset.cathodeMaterial === setup.cathodeMaterial && preset.anodeMaterial === setup.anodeMaterial,
+  );
+  const applyPreset = (id: string) => {
+    const preset = GALVANIC_PRESETS.find(option => option.id === id);
+    if (preset) {
+      changeSetup({ cathodeMaterial: preset.cathodeMaterial, anodeMaterial: preset.anodeMaterial });
+    }
+  };
   
-  const chartLabels = Array.from({ length: Math.max(10, time) }, (_, i) => (i + 1).toString()).slice(-10);
-  const chartHydrogenData = hydrogenData.length 
-    ? [...Array(Math.max(0, 10 - hydrogenData.length)).fill(0), ...hydrogenData].slice(-10) 
-    : [0];
-  const chartOxygenData = oxygenData.length 
-    ? [...Array(Math.max(0, 10 - oxygenData.length)).fill(0), ...oxygenData].slice(-10) 
-    : [0];
+  const { time, electrodes } = run.state;
+  const plating = platedObject ? platingResult(run.state, params) : null;
 
-  const totalHydrogen = hydrogenData.length ? hydrogenData[hydrogenData.length - 1] : 0;
-  const totalOxygen = oxygenData.length ? oxygenData[oxygenData.length - 1] : 0;
+  // Opens the guide at a section, with this experiment's numbers as they are now.
+  const showGuide = (section?: string, side?: ElectrodeSide) =>
+    onShowGuide?.(section, guideContext(run.state, params, electrics, side));
+  // Each electrode leads to what decides its reactions.
+  const electrodeSection = platedObject
+    ? 'depunerea-metalului'
+    : galvanic
+      ? 'potentiale-standard'
+      : 'ordinea-descarcarii';
+
+  // Readings change once per simulated second, like the last digit of a meter.
+  const measure = (id: InstrumentId, value: number, seed = time) =>
+    readInstrument(id, value, { noise: noisyReadings, seed });
+  // Pressing the stopwatch is late or early by the student's reaction time.
+  const reactionTime = () =>
+    noisyReadings ? INSTRUMENTS.stopwatch.noise * measurementNoise('stopwatch', stopwatch.presses + time) : 0;
+  const toggleStopwatch = () =>
+    setStopwatch(
+      stopwatch.startedAt === null
+        ? { ...stopwatch, startedAt: time + reactionTime(), presses: stopwatch.presses + 1 }
+        : {
+            elapsed: stopwatch.elapsed + time + reactionTime() - stopwatch.startedAt,
+            startedAt: null,
+            presses: stopwatch.presses + 1,
+          },
+    );
+  const stopwatchReading = readInstrument(
+    'stopwatch',
+    stopwatch.elapsed + (stopwatch.startedAt === null ? 0 : time - stopwatch.startedAt),
+    { noise: false, seed: 0 },
+  );
+  const weigh = (side: ElectrodeSide) =>
+    setWeighings([
+      ...weighings,
+      {
+        label: s.common[side],
+        time,
+        reading: measure('balance', electrodes[side], weighings.length * 7 + time),
+      },
+    ]);
+  const gasInTubes = collectedGasVolumes(run.state, params);
+  const tubeVolume = (side: ElectrodeSide) => Math.max(0, gasInTubes[side] - tubeZero[side]);
+  const rates = productionRates(run.state, params);
+  const efficiencies = faradaicEfficiencies(run.state, params);
+
+  // With other runs overlaid, one product is compared across all of them;
+  // otherwise every product of this run is drawn.
+  const overlayProducts = recordedProducts([...run.samples, ...overlayRuns.flatMap(saved => saved.samples)]);
+  const comparedProduct = overlayProducts.includes(overlayProduct) ? overlayProduct : cathodeProduct.id;
+  // Rebuilt only when the data changes, so the chart thins it once per tick.
+  const chartSeries: ChartSeries[] = useMemo(
+    () =>
+      overlayRuns.length
+        ? [{ name: s.experiment.currentRun, samples: run.samples }, ...overlayRuns].map((entry, index) => ({
+            label: entry.name.length > 24 ? `${entry.name.slice(0, 23)}…` : entry.name,
+            color: SERIES_COLORS[index % SERIES_COLORS.length],
+            points: amountPoints(entry.samples, comparedProduct),
+          }))
+        : productSeries(run.samples, productName),
+    [run.samples, overlayRuns, comparedProduct, s],
+  );
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -205,106 +1040,528 @@ const ExperimentationScreen: React.FC<ExperimentationScreenProps> = ({ onBack })
         <View style={styles.leftPane}>
           <ScrollView style={styles.leftScroll} contentContainerStyle={styles.leftContent}>
             <View style={styles.headerBar}>
-              <Button title="Inapoi" onPress={onBack} color="#007BFF" />
-              <Text style={styles.headerTitle}>Experimentare</Text>
-              <Button title="GHID" onPress={() => setShowGuide(true)} color="#007BFF" />
+              <Button title={s.common.back} onPress={handleBack} color="#007BFF" />
+              <Text style={styles.headerTitle}>
+                {mission ? byId(s.missionTexts, mission.id).title : s.experiment.title}
+              </Text>
+              <Button title={s.experiment.guide} onPress={() => showGuide()} color="#007BFF" />
             </View>
-            <View style={styles.controls}>
-              <View style={styles.sliderContainer}>
-                <Text style={styles.controlLabel}>Tensiune: {voltage.toFixed(1)} V</Text>
-                <Slider
-                  style={styles.slider}
-                  minimumValue={1}
-                  maximumValue={12}
-                  step={0.1}
-                  value={voltage}
-                  onValueChange={setVoltage}
-                  minimumTrackTintColor="#007BFF"
-                  maximumTrackTintColor="#ccc"
-                  thumbTintColor="#009688"
-                />
-              </View>
-              <View style={styles.sliderContainer}>
-                <Text style={styles.controlLabel}>Intensitate: {current.toFixed(1)} A</Text>
-                <Slider
-                  style={styles.slider}
-                  minimumValue={0.1}
-                  maximumValue={5}
-                  step={0.1}
-                  value={current}
-                  onValueChange={setCurrent}
-                  minimumTrackTintColor="#007BFF"
-                  maximumTrackTintColor="#ccc"
-                  thumbTintColor="#009688"
-                />
+            <View style={styles.timeBar}>
+              <Text style={styles.clockText}>{formatClock(time)}</Text>
+              <TouchableOpacity style={styles.timeButton} onPress={() => setPlaying(!playing)}>
+                <Text style={styles.timeButtonText}>{playing ? s.experiment.pause : s.experiment.play}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.timeButton, (playing || !running) && styles.sliderDisabled]}
+                onPress={() => advance(speed)}
+                disabled={playing || !running}
+              >
+                <Text style={styles.timeButtonText}>⏭ +{speed} s</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.timeButton} onPress={restartRun}>
+                <Text style={styles.timeButtonText}>{s.experiment.reset}</Text>
+              </TouchableOpacity>
+            </View>
+            <OptionChips
+              options={speedOptions}
+              selected={String(speed)}
+              onSelect={id => setSpeed(Number(id))}
+            />
+            {mission && missionStatus && (
+              <View style={styles.missionPanel}>
+                <Text style={styles.missionDescription}>{byId(s.missionTexts, mission.id).description}</Text>
+                {missionStatus.objectives.map((status, index) => (
+                  <View key={index} style={styles.objectiveRow}>
+                    <Text style={[styles.objectiveText, status.failed && styles.objectiveFailed]}>
+                      {status.complete ? '✔' : status.failed ? '✘' : '•'} {describeObjective(status.objective, s, n)}
+                    </Text>
+                    <View style={styles.progressTrack}>
+                      <View
+                        style={[
+                          styles.progressFill,
+                          { width: `${Math.round(status.progress * 100)}%` },
+                          status.failed && styles.progressFailed,
+                        ]}
+                      />
+                    </View>
+                  </View>
+                ))}
+                <Text style={styles.objectiveText}>
+                  {s.experiment.missionProgress(Math.round(missionStatus.progress * 100))}
+                </Text>
               </View>
+            )}
+            <View style={styles.controls}>
+              <Text style={styles.controlLabel}>{s.experiment.cellType}</Text>
+              <OptionChips
+                options={cellTypeOptions}
+                selected={setup.cell}
+                onSelect={id => switchCell(id as CellType)}
+                disabled={isLocked('cell')}
+              />
+              {galvanic ? (
+                <>
+                  <Text style={styles.controlLabel}>
+                    {s.experiment.cellNotation(
+                      cellNotation(
+                        { cathode: setup.cathodeMaterial, anode: setup.anodeMaterial },
+                        setup.ionConcentrations,
+                        molarity => n(molarity, 2, true),
+                      ),
+                    )}
+                    {activePreset ? '' : s.experiment.customCell}
+                  </Text>
+                  <OptionChips
+                    options={presetOptions}
+                    selected={activePreset?.id ?? ''}
+                    onSelect={applyPreset}
+                    disabled={isLocked('cathodeMaterial') || isLocked('anodeMaterial')}
+                  />
+                  <Text style={styles.controlLabel}>{s.experiment.galvanicCathode(materialName(cathodeMaterial))}</Text>
+                  <OptionChips
+                    options={halfCellOptions}
+                    selected={setup.cathodeMaterial}
+                    onSelect={id => changeSetup({ cathodeMaterial: id })}
+                    disabled={isLocked('cathodeMaterial')}
+                  />
+                  <Text style={styles.controlLabel}>{s.experiment.galvanicAnode(materialName(anodeMaterial))}</Text>
+                  <OptionChips
+                    options={halfCellOptions}
+                    selected={setup.anodeMaterial}
+                    onSelect={id => changeSetup({ anodeMaterial: id })}
+                    disabled={isLocked('anodeMaterial')}
+                  />
+                  {(['cathode', 'anode'] as const).map(side => (
+                    <ParameterSlider
+                      key={side}
+                      label={s.experiment.ionConcentration[side](
+                        ION_LABELS[getHalfCell(setup[side === 'cathode' ? 'cathodeMaterial' : 'anodeMaterial']).ion],
+                        n(ionDraft[side] ?? setup.ionConcentrations[side], 2),
+                      )}
+                      value={ionDraft[side] ?? setup.ionConcentrations[side]}
+                      min={0.01}
+                      max={2}
+                      step={0.01}
+                      onChange={value => setIonDraft(prev => ({ ...prev, [side]: value }))}
+                      onChangeComplete={value => {
+                        setIonDraft({});
+                        changeSetup({ ionConcentrations: { ...setup.ionConcentrations, [side]: value } });
+                      }}
+                      disabled={isLocked('ionConcentrations')}
+                    />
+                  ))}
+                  <Text style={styles.controlLabel}>{s.experiment.externalCircuit}</Text>
+                  <OptionChips
+                    options={loadOptions}
+                    selected={load}
+                    onSelect={id => setLoad(id as LoadType)}
+                    disabled={isLocked('load')}
+                  />
+                  <ParameterSlider
+                    label={s.experiment.loadResistance(n(loadResistance))}
+                    value={loadResistance}
+                    min={1}
+                    max={100}
+                    step={1}
+                    onChange={setLoadResistance}
+                    disabled={load !== 'resistor' || isLocked('loadResistance')}
+                  />
+                </>
+              ) : (
+                <>
+                  <Text style={styles.controlLabel}>
+                    {s.experiment.solution(
+                      byId(s.electrolytes, electrolyte.id).name,
+                      byId(s.electrolytes, electrolyte.id).formula,
+                    )}
+                  </Text>
+                  <OptionChips
+                    options={electrolyteOptions}
+                    selected={setup.electrolyte}
+                    onSelect={id => changeSetup({ electrolyte: id })}
+                    disabled={isLocked('electrolyte')}
+                  />
+                  <Text style={styles.controlLabel}>
+                    {platedObject
+                      ? s.experiment.plating(byId(s.platedObjects, platedObject.id), platedObject.area)
+                      : s.experiment.noPlating}
+                  </Text>
+                  <OptionChips
+                    options={platedObjectOptions}
+                    selected={platedObject?.id ?? ''}
+                    onSelect={choosePlatedObject}
+                    disabled={molten || isLocked('cathodeMaterial')}
+                  />
+                  <Text style={styles.controlLabel}>{s.experiment.cathode(materialName(cathodeMaterial))}</Text>
+                  <OptionChips
+                    options={materialOptions}
+                    selected={setup.cathodeMaterial}
+                    onSelect={id => changeSetup({ cathodeMaterial: id })}
+                    disabled={!!platedObject || isLocked('cathodeMaterial')}
+                  />
+                  <Text style={styles.controlLabel}>{s.experiment.anode(materialName(anodeMaterial))}</Text>
+                  <OptionChips
+                    options={materialOptions}
+                    selected={setup.anodeMaterial}
+                    onSelect={id => changeSetup({ anodeMaterial: id })}
+                    disabled={isLocked('anodeMaterial')}
+                  />
+                  <Text style={styles.controlLabel}>{s.experiment.supply}</Text>
+                  <OptionChips
+                    options={supplyModeOptions}
+                    selected={mode}
+                    onSelect={id => setMode(id as SupplyMode)}
+                    disabled={isLocked('mode')}
+                  />
+                  <ParameterSlider
+                    label={s.experiment.voltage(n(electrics.voltage, 2))}
+                    value={voltage}
+                    min={0}
+                    max={12}
+                    step={0.1}
+                    onChange={setVoltage}
+                    disabled={mode !== 'voltage' || isLocked('voltage')}
+                  />
+                  <ParameterSlider
+                    label={s.experiment.current(n(electrics.current, 2))}
+                    value={current}
+                    min={0}
+                    max={5}
+                    step={0.1}
+                    onChange={setCurrent}
+                    disabled={mode !== 'current' || isLocked('current')}
+                  />
+                </>
+              )}
+              <ParameterSlider
+                label={s.experiment.electrodeArea(n(electrodeArea))}
+                value={electrodeArea}
+                min={1}
+                max={50}
+                step={1}
+                onChange={setElectrodeArea}
+                disabled={!!platedObject || isLocked('electrodeArea')}
+              />
+              <ParameterSlider
+                label={s.experiment.electrodeDistance(n(electrodeDistance, 1))}
+                value={electrodeDistance}
+                min={1}
+                max={15}
+                step={0.5}
+                onChange={setElectrodeDistance}
+                disabled={isLocked('electrodeDistance')}
+              />
+              <ParameterSlider
+                label={s.experiment.roomTemperature(n(temperature - CELSIUS_OFFSET))}
+                value={temperature - CELSIUS_OFFSET}
+                min={0}
+                max={95}
+                step={1}
+                onChange={celsius => changeTemperature(celsius + CELSIUS_OFFSET)}
+                disabled={isLocked('temperature')}
+              />
+              <ParameterSlider
+                label={s.experiment.pressure(n(pressure, 2), n(pressure * ATM_TO_MMHG))}
+                value={pressure}
+                min={0.5}
+                max={1.5}
+                step={0.01}
+                onChange={setPressure}
+                disabled={isLocked('pressure')}
+              />
+              <Text style={styles.controlLabel}>{s.experiment.gasCollection}</Text>
+              <OptionChips
+                options={gasCollectionOptions}
+                selected={collectOverWater ? 'water' : 'dry'}
+                onSelect={id => setCollectOverWater(id === 'water')}
+                disabled={isLocked('collectOverWater')}
+              />
+              <Text style={styles.controlLabel}>{s.experiment.saltBridge}</Text>
+              <OptionChips
+                options={saltBridgeOptions}
+                selected={saltBridge}
+                onSelect={id => setSaltBridge(id as SaltBridgeState)}
+                disabled={isLocked('saltBridge')}
+              />
+              <Text style={styles.controlLabel}>{s.experiment.indicator}</Text>
+              <OptionChips
+                options={indicatorOptions}
+                selected={indicator ? indicatorId : 'none'}
+                onSelect={setIndicatorId}
+                disabled={molten}
+              />
             </View>
             <View style={styles.circuitDiagram}>
               <View style={styles.battery}>
-                <Text style={styles.batteryText}>Sursa</Text>
-                <Text style={styles.batteryValue}>{voltage.toFixed(1)} V {current.toFixed(1)} A</Text>
+                <Text style={styles.batteryText}>{galvanic ? s.experiment.cell : s.experiment.supply}</Text>
+                <Text style={styles.batteryValue}>
+                  {n(electrics.voltage, 1)} V {n(electrics.current, 2)} A
+                </Text>
               </View>
             </View>
-            <Text style={styles.graphTitle}>Viteza de Producție a Gazelor</Text>
-            <LineChart
-              data={{
-                labels: chartLabels,
-                datasets: [
-                  {
-                    data: chartHydrogenData,
-                    color: (opacity = 1) => `rgba(0, 123, 255, ${opacity})`,
-                    strokeWidth: 2,
-                  },
-                  {
-                    data: chartOxygenData,
-                    color: (opacity = 1) => `rgba(255, 193, 7, ${opacity})`,
-                    strokeWidth: 2,
-                  },
-                ],
-                legend: ['Hidrogen', 'Oxigen'],
-              }}
-              width={Dimensions.get('window').width * 0.55}
-              height={220}
-              chartConfig={{
-                backgroundColor: '#E3F2FD',
-                backgroundGradientFrom: '#E3F2FD',
-                backgroundGradientTo: '#E3F2FD',
-                decimalPlaces: 1,
-                color: (opacity = 1) => `rgba(0, 123, 255, ${opacity})`,
-                labelColor: (opacity = 1) => `rgba(51, 51, 51, ${opacity})`,
-                style: { borderRadius: 16 },
-                propsForDots: {
-                  r: '3',
-                  strokeWidth: '1',
-                  stroke: '#007BFF',
-                },
-                fillShadowGradientOpacity: 0.6,
-              }}
-              bezier
-              withInnerLines={true}
-              withOuterLines={true}
-              fromZero={true}
-              style={{
-                marginVertical: 8,
-                borderRadius: 16,
-                alignSelf: 'center',
-              }}
+            <Text style={styles.graphTitle}>{s.experiment.graphTitle}</Text>
+            <OptionChips
+              options={(['chart', 'table', 'sweep'] as const).map(id => ({ id, label: s.experiment.views[id] }))}
+              selected={chartView}
+              onSelect={id => setChartView(id as 'chart' | 'table' | 'sweep')}
             />
-            <Text style={styles.axisCaption}>
-              X: Timp (s) | Y: Producție cumulativă
-            </Text>
+            {chartView === 'sweep' ? (
+              <SweepPanel params={params} width={Dimensions.get('window').width * 0.55} />
+            ) : chartView === 'chart' ? (
+              <>
+                <View ref={chartRef} collapsable={false}>
+                  <HistoryChart
+                    series={chartSeries}
+                    width={Dimensions.get('window').width * 0.55}
+                    height={220}
+                  />
+                </View>
+                <Text style={styles.axisCaption}>
+                  X: {s.experiment.timeAxis} | Y: {s.experiment.productionAxis}
+                  {overlayRuns.length
+                    ? s.experiment.comparedProduct(PRODUCTS[comparedProduct].label, productUnit(comparedProduct))
+                    : ''}
+                </Text>
+              </>
+            ) : (
+              <SampleTable samples={run.samples} />
+            )}
+            {savedRuns.some(saved => saved.id !== runInfo.id) && (
+              <View style={styles.controls}>
+                <Text style={styles.controlLabel}>{s.experiment.compare}</Text>
+                <OptionChips
+                  options={savedRuns
+                    .filter(saved => saved.id !== runInfo.id)
+                    .map(saved => ({ id: saved.id, label: saved.name }))}
+                  selected=""
+                  onSelect={toggleOverlay}
+                />
+                {overlayRuns.length > 0 && (
+                  <>
+                    <Text style={styles.infoText}>
+                      {s.experiment.overlaid(overlayRuns.map(saved => saved.name).join(', '))}
+                    </Text>
+                    <OptionChips
+                      options={overlayProducts.map(id => ({ id, label: PRODUCTS[id].label }))}
+                      selected={comparedProduct}
+                      onSelect={setOverlayProduct}
+                    />
+                  </>
+                )}
+              </View>
+            )}
+            <View style={styles.exportRow}>
+              <Text style={styles.controlLabel}>{s.experiment.exportData}</Text>
+              {(['csv', 'json', 'svg', 'png'] as const).map(format => {
+                // On native the PNG is a snapshot of the chart, which only
+                // exists while it is shown.
+                const disabled =
+                  !run.samples.length || (format === 'png' && Platform.OS !== 'web' && chartView !== 'chart');
+                return (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.optionChip, disabled && styles.sliderDisabled]}
+                    onPress={() => exportRun(format)}
+                    disabled={disabled}
+                  >
+                    <Text style={styles.optionText}>{format.toUpperCase()}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {exportError && <Text style={styles.warningText}>{s.experiment.exportFailed(exportError)}</Text>}
             <View style={styles.graphInfo}>
-              <Text style={styles.infoText}>Timp de simulare: {time} s</Text>
               <Text style={styles.infoText}>
-                Tensiune: {voltage.toFixed(1)} V | Intensitate: {current.toFixed(1)} A
+                {s.experiment.simulationTime(time, formatClock(time), speed, !playing)}
+              </Text>
+              <Text style={styles.infoText}>
+                {s.experiment.readings(n(electrics.voltage, 2), n(electrics.current, 2))}
+              </Text>
+              {galvanic ? (
+                <>
+                  <Text style={styles.infoText}>
+                    {s.experiment.electrodePotentials(n(electrics.potentials.cathode, 3), n(electrics.potentials.anode, 3))}
+                  </Text>
+                  <Text style={styles.infoText}>
+                    {s.experiment.emf(n(electrics.emf, 3))}
+                    {load === 'resistor' ? s.experiment.terminalVoltage(n(electrics.voltage, 3)) : ''}
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.infoText}>
+                  {s.experiment.decompositionVoltage(n(electrics.decompositionVoltage, 2))}
+                </Text>
+              )}
+              <Text style={styles.infoText}>
+                {s.experiment.overpotentials(n(electrics.overpotentials.cathode, 2), n(electrics.overpotentials.anode, 2))}
+              </Text>
+              <Text style={styles.infoText}>
+                {s.experiment.resistance(n(electrics.resistance, 2), n(electrics.conductivity, 3))}
+              </Text>
+              {run.state.cracked ? (
+                <Text style={styles.warningText}>{s.experiment.cracked}</Text>
+              ) : saltBridge !== 'wet' ? (
+                <Text style={styles.warningText}>{s.experiment.bridgeOpen}</Text>
+              ) : galvanic ? (
+                electrics.emf <= 0 ? (
+                  <Text style={styles.warningText}>{s.experiment.negativeEmf}</Text>
+                ) : load === 'voltmeter' && (
+                  <Text style={styles.infoText}>{s.experiment.voltmeterOpen}</Text>
+                )
+              ) : !running && mode === 'voltage' && (
+                <Text style={styles.warningText}>{s.experiment.belowDecomposition}</Text>
+              )}
+              <Text style={styles.infoText}>
+                {s.experiment.heat(n(cellCelsius, 1), n(heat.heating, 1), n(heat.loss, 1))}
+                {heat.evaporation > 0.05 ? s.experiment.evaporation(n(heat.evaporation, 1)) : ''}
+              </Text>
+              {boiling ? (
+                <Text style={styles.warningText}>
+                  {s.experiment.boiling(n(boilingPoint(pressure) - CELSIUS_OFFSET), n(pressure, 2))}
+                </Text>
+              ) : cellCelsius >= WARM_CELL && !run.state.cracked && (
+                <Text style={styles.warningText}>{s.experiment.warm}</Text>
+              )}
+              {Object.entries(rates).map(([id, rate]) => (
+                <Text key={id} style={styles.infoText}>
+                  {s.experiment.productionRate(PRODUCTS[id].label, n(rate, 2), productUnit(id))}
+                </Text>
+              ))}
+              {Object.keys(efficiencies).length > 0 && (
+                <Text style={styles.infoText}>
+                  {s.experiment.faradayEfficiency(
+                    Object.entries(efficiencies)
+                      .map(([id, efficiency]) => `${PRODUCTS[id].label} ${n(efficiency * 100, 1)}%`)
+                      .join(', '),
+                  )}
+                </Text>
+              )}
+              {(['cathode', 'anode'] as const).map(side => (
+                <Text key={side} style={styles.infoText}>
+                  {s.experiment.beakers[side]}: {molten ? '' : `pH ${n(pH[side], 1)} | `}
+                  {Object.keys(solutions[side])
+                    .filter(formula => ION_LABELS[formula] && formula !== 'H+' && formula !== 'OH-')
+                    .map(formula => `${ION_LABELS[formula]} ${n(concentration(solutions[side], formula, volumes[side]), 2)} M`)
+                    .join(', ')}
+                  {molten ? '' : ` | ${n(volumes[side] * 1000)} mL`}
+                </Text>
+              ))}
+              <Text style={styles.infoText}>
+                {s.experiment.bridgeTransport(
+                  ION_LABELS[SALT_BRIDGE_IONS.cation],
+                  n(transportNumbers().cation, 2),
+                  ION_LABELS[SALT_BRIDGE_IONS.anion],
+                  n(transportNumbers().anion, 2),
+                  n(bridgeMigration(run.state.charge).cation * 1000, 1),
+                  n(bridgeMigration(run.state.charge).anion * 1000, 1),
+                )}
+              </Text>
+              <Text style={styles.infoText}>
+                {s.experiment.conditions(n(temperature - CELSIUS_OFFSET), n(cellCelsius, 1), n(pressure, 2))}
+                {collectOverWater
+                  ? s.experiment.vapourPressure(
+                      n(waterVaporPressure(conditions.temperature) * ATM_TO_MMHG, 1),
+                      n(dryGasPressure(conditions) * ATM_TO_MMHG, 1),
+                    )
+                  : ''}
               </Text>
+              {Object.keys(run.state.products)
+                .map(id => PRODUCTS[id])
+                .filter(product => product.gas)
+                .map(product => (
+                  <Text key={product.id} style={styles.infoText}>
+                    {s.experiment.collectedVolume(
+                      product.label,
+                      n(collectedGasVolume(run.state.products[product.id]?.moles ?? 0, conditions), 2),
+                    )}
+                  </Text>
+                ))}
               <Text style={styles.infoText}>
-                Viteza de producere H₂: {calculateGasRate(current, current / (2 * faraday)).toFixed(2)} mL/s
+                {s.experiment.cathodeMass(
+                  cathodeMaterial.symbol,
+                  n(electrodes.cathode, 3),
+                  formatMassChange(electrodes.cathode - initialElectrodeMass(cathodeMaterial), n),
+                )}
               </Text>
               <Text style={styles.infoText}>
-                Viteza de producere O₂: {calculateGasRate(current, current / (4 * faraday)).toFixed(2)} mL/s
+                {s.experiment.anodeMass(
+                  anodeMaterial.symbol,
+                  n(electrodes.anode, 3),
+                  formatMassChange(electrodes.anode - initialElectrodeMass(anodeMaterial), n),
+                )}
               </Text>
             </View>
+            <WorkedCalculations state={run.state} params={params} electrics={electrics} />
+            {platedObject && (
+              <PlatingPanel
+                object={platedObject}
+                state={run.state}
+                samples={run.samples}
+                params={params}
+                electrics={electrics}
+              />
+            )}
+            <FaradayAnalysis samples={run.samples} params={params} noise={noisyReadings} />
+            <View style={styles.runPanel}>
+              <Text style={styles.controlLabel}>{s.experiment.runName}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={runInfo.name}
+                onChangeText={name => setRunInfo({ ...runInfo, name })}
+              />
+              <Text style={styles.controlLabel}>{s.experiment.notes}</Text>
+              <TextInput
+                style={[styles.textInput, styles.notesInput]}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder={s.experiment.notesPlaceholder}
+                multiline
+              />
+              <View style={styles.runButtons}>
+                <Button title={s.experiment.save} onPress={() => persistRun()} color="#007BFF" />
+                <Button
+                  title={finished ? s.experiment.resume : s.experiment.finish}
+                  onPress={toggleFinished}
+                  color="#009688"
+                />
+              </View>
+              {saveError && <Text style={styles.warningText}>{s.experiment.saveFailed(saveError)}</Text>}
+              <Text style={styles.controlLabel}>{s.report.title}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={report.student}
+                onChangeText={student => setReport({ ...report, student })}
+                placeholder={`${s.report.student}: ${s.report.studentPlaceholder}`}
+              />
+              <TextInput
+                style={[styles.textInput, styles.notesInput]}
+                value={report.hypothesis}
+                onChangeText={hypothesis => setReport({ ...report, hypothesis })}
+                placeholder={`${s.report.hypothesis}: ${s.report.hypothesisPlaceholder}`}
+                multiline
+              />
+              <TextInput
+                style={[styles.textInput, styles.notesInput]}
+                value={report.conclusion}
+                onChangeText={conclusion => setReport({ ...report, conclusion })}
+                placeholder={`${s.report.conclusion}: ${s.report.conclusionPlaceholder}`}
+                multiline
+              />
+              <Button title={s.report.generate} onPress={generateReport} color="#007BFF" />
+              {Platform.OS === 'web' && <Text style={styles.infoText}>{s.report.printHint}</Text>}
+              {reportError && <Text style={styles.warningText}>{s.report.failed(reportError)}</Text>}
+              {!mission && (
+                <>
+                  <Text style={styles.controlLabel}>{s.experiment.link}</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={routeUrl({ screen: 'experiment', params: linkParams(params) })}
+                    editable={false}
+                    selectTextOnFocus
+                  />
+                </>
+              )}
+            </View>
           </ScrollView>
         </View>
         {/* RIGHT PANE: Apparatus (Glasses and connections) */}
@@ -312,57 +1569,192 @@ const ExperimentationScreen: React.FC<ExperimentationScreenProps> = ({ onBack })
           <View style={styles.apparatusContainer}>
             
             {/* Render the SaltBridge component first so it's visually behind wires/battery if needed */}
-            <SaltBridge />
+            <SaltBridge
+              state={saltBridge}
+              current={playing ? electrics.current : 0}
+              speed={speed}
+              onPress={() => showGuide('rolul-puntii')}
+            />
+
+            <Thermometer temperature={run.state.temperature} warning={cellCelsius >= WARM_CELL} />
 
             {/* Render the Battery component (containing accumulator and wires) */}
-            <Battery />
+            <Battery
+              label={
+                !galvanic
+                  ? s.experiment.accumulator
+                  : load === 'voltmeter'
+                    ? s.experiment.voltmeterReading(n(electrics.voltage, 3))
+                    : s.experiment.resistor(n(loadResistance))
+              }
+            />
             
-            {/* Left container for H2 */}
+            {/* Left container: cathode */}
             <View style={styles.leftContainer}>
-              <View style={styles.container1}>
-                <GasLabel position="left" text="H₂(g)" />
-                <View style={[styles.solution, { backgroundColor: '#D6EAFF' }]}>
-                  {bubbles
-                    .filter(bubble => bubble.side === 'left')
-                    .map(bubble => (
-                      <FloatingBubble key={bubble.id} left={bubble.left} side="left" />
-                    ))}
-                </View>
+              <View style={[styles.container1, run.state.cracked && styles.crackedBeaker]}>
+                <GasLabel
+                  position="left"
+                  text={sideProducts('cathode').map(product => product.label).join(' + ')}
+                  onPress={() => showGuide('volumul-gazelor', 'cathode')}
+                />
+                <View style={[styles.solution, { top: solutionTop('cathode'), backgroundColor: beakerColors.cathode }]} />
                 {/* Screw (electrode) positioned inside the container */}
-                <Screw position="left" />
+                {platedObject ? (
+                  <PlatedItem
+                    object={platedObject}
+                    material={cathodeMaterial}
+                    thickness={plating?.thickness ?? 0}
+                    coatColor={cathodeProduct.deposits ? cathodeProduct.color : undefined}
+                    quality={plating ? coatingQuality(run.samples, plating.productId, electrodeArea) : 'good'}
+                    onPress={() => showGuide(electrodeSection, 'cathode')}
+                  />
+                ) : (
+                  <Screw
+                    position="left"
+                    material={cathodeMaterial}
+                    mass={electrodes.cathode}
+                    depositColor={cathodeProduct.deposits ? cathodeProduct.color : undefined}
+                    onPress={() => showGuide(electrodeSection, 'cathode')}
+                  />
+                )}
+                {(cathodeGas || tubeVolume('cathode') > 0) && (
+                  <GasTube
+                    volume={tubeVolume('cathode')}
+                    color={(cathodeGas ?? PRODUCTS.H2).color}
+                    style={[styles.gasTube, styles.leftGasTube]}
+                  />
+                )}
+                {cathodeGas && (
+                  <BubbleField
+                    position="left"
+                    gasRate={bubbling ? gasRates.cathode : 0}
+                    speedup={bubbleSpeedup}
+                    color={cathodeGas.color}
+                    surface={surfaceLevel('cathode')}
+                  />
+                )}
               </View>
             </View>
 
-            {/* Right container for O2 */}
+            {/* Right container: anode */}
             <View style={styles.rightContainer}>
-              <View style={styles.container2}>
-                <GasLabel position="right" text="O₂(g)" />
-                <View style={[styles.solution, { backgroundColor: '#FFE4E1' }]}>
-                  {bubbles
-                    .filter(bubble => bubble.side === 'right')
-                    .map(bubble => (
-                      <FloatingBubble key={bubble.id} left={bubble.left} side="right" />
-                    ))}
-                </View>
+              <View style={[styles.container2, run.state.cracked && styles.crackedBeaker]}>
+                <GasLabel
+                  position="right"
+                  text={sideProducts('anode').map(product => product.label).join(' + ')}
+                  onPress={() => showGuide('volumul-gazelor', 'anode')}
+                />
+                <View style={[styles.solution, { top: solutionTop('anode'), backgroundColor: beakerColors.anode }]} />
                 {/* Screw (electrode) positioned inside the container */}
-                <Screw position="right" />
+                <Screw
+                  position="right"
+                  material={anodeMaterial}
+                  mass={electrodes.anode}
+                  onPress={() => showGuide(electrodeSection, 'anode')}
+                />
+                {(anodeGas || tubeVolume('anode') > 0) && (
+                  <GasTube
+                    volume={tubeVolume('anode')}
+                    color={(anodeGas ?? PRODUCTS.O2).color}
+                    style={[styles.gasTube, styles.rightGasTube]}
+                  />
+                )}
+                {anodeGas && (
+                  <BubbleField
+                    position="right"
+                    gasRate={bubbling ? gasRates.anode : 0}
+                    speedup={bubbleSpeedup}
+                    color={anodeGas.color}
+                    surface={surfaceLevel('anode')}
+                  />
+                )}
               </View>
             </View>
           </View>
+          {/* Measuring instruments on the bench */}
+          <View style={styles.instrumentsRow}>
+            <DigitalMeter id="ammeter" reading={measure('ammeter', electrics.current)} />
+            <DigitalMeter id="voltmeter" reading={measure('voltmeter', electrics.voltage)} />
+            <Stopwatch
+              reading={stopwatchReading}
+              running={stopwatch.startedAt !== null}
+              onToggle={toggleStopwatch}
+              onReset={() => setStopwatch({ elapsed: 0, startedAt: null, presses: stopwatch.presses })}
+            />
+            <Balance
+              reading={weighings.length ? weighings[weighings.length - 1].reading : 0}
+              weighings={weighings}
+              targets={[
+                { label: s.experiment.weighCathode, onWeigh: () => weigh('cathode') },
+                { label: s.experiment.weighAnode, onWeigh: () => weigh('anode') },
+              ]}
+            />
+            <DigitalMeter id="gasTube" reading={measure('gasTube', tubeVolume('cathode'))}>
+              <Text style={styles.instrumentNote}>{s.common.cathode}</Text>
+            </DigitalMeter>
+            <DigitalMeter id="gasTube" reading={measure('gasTube', tubeVolume('anode'))}>
+              <Text style={styles.instrumentNote}>{s.common.anode}</Text>
+            </DigitalMeter>
+          </View>
+          <View style={styles.instrumentOptions}>
+            <OptionChips
+              options={noiseOptions}
+              selected={noisyReadings ? 'noisy' : 'exact'}
+              onSelect={id => setNoisyReadings(id === 'noisy')}
+            />
+            <TouchableOpacity
+              style={styles.timeButton}
+              onPress={() => setTubeZero({ cathode: gasInTubes.cathode, anode: gasInTubes.anode })}
+            >
+              <Text style={styles.timeButtonText}>{s.experiment.emptyTubes}</Text>
+            </TouchableOpacity>
+          </View>
           {/* Reactions moved below the glasses */}
           <View style={styles.reactionsContainer}>
-            <View style={[styles.reactionBox, { backgroundColor: '#FFFFD6' }]}>
-              <Text style={styles.reactionText}>2H₂O + 2e⁻ → H₂(g) + 2OH⁻</Text>
-              <Text style={styles.reactionName}>Reducere</Text>
-            </View>
-            <View style={[styles.reactionBox, { backgroundColor: '#D6EAFF' }]}>
-              <Text style={styles.reactionText}>2H₂O → O₂(g) + 4H⁺ + 4e⁻</Text>
-              <Text style={styles.reactionName}>Oxidare</Text>
-            </View>
+            <TouchableOpacity
+              style={[styles.reactionBox, { backgroundColor: '#FFFFD6' }]}
+              onPress={() => showGuide('catod-si-anod', 'cathode')}
+            >
+              <ReactionList shares={sideReactions.cathode} current={electrics.current} />
+              <Text style={styles.reactionName}>{s.experiment.reduction}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.reactionBox, { backgroundColor: '#D6EAFF' }]}
+              onPress={() => showGuide('catod-si-anod', 'anode')}
+            >
+              <ReactionList shares={sideReactions.anode} current={electrics.current} />
+              <Text style={styles.reactionName}>{s.experiment.oxidation}</Text>
+            </TouchableOpacity>
           </View>
         </View>
       </View>
-      {showGuide && <TheoreticalGuide onClose={() => setShowGuide(false)} />}
+      {mission && missionStatus && missionOver && (
+        <View style={styles.missionOverlay}>
+          <View style={styles.missionResult}>
+            <Text style={styles.missionResultTitle}>
+              {missionStatus.complete ? s.experiment.missionComplete : s.experiment.missionFailed}
+            </Text>
+            {missionStatus.complete && missionResult && (
+              <>
+                <Text style={styles.missionStars}>
+                  {'★'.repeat(missionResult.stars)}{'☆'.repeat(3 - missionResult.stars)}
+                </Text>
+                <Text style={styles.infoText}>{s.common.score(missionResult.score)}</Text>
+                <Text style={styles.infoText}>{s.experiment.time(missionResult.time ?? time)}</Text>
+              </>
+            )}
+            {missionStatus.objectives.map((status, index) => (
+              <Text key={index} style={[styles.objectiveText, status.failed && styles.objectiveFailed]}>
+                {status.complete ? '✔' : '✘'} {describeObjective(status.objective, s, n)}
+              </Text>
+            ))}
+            <View style={styles.missionButtons}>
+              <Button title={s.experiment.retry} onPress={restartRun} color="#007BFF" />
+              <Button title={s.experiment.backToMissions} onPress={handleBack} color="#007BFF" />
+            </View>
+          </View>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -405,17 +1797,142 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: '#007BFF',
   },
+  timeBar: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  clockText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginHorizontal: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  timeButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  timeButtonText: {
+    fontSize: 14,
+    color: '#007BFF',
+  },
   controls: {
     marginBottom: 20,
   },
+  missionPanel: {
+    backgroundColor: '#FFF8E1',
+    borderWidth: 2,
+    borderColor: '#FFC107',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 15,
+  },
+  missionDescription: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  objectiveRow: {
+    marginBottom: 6,
+  },
+  objectiveText: {
+    fontSize: 14,
+    color: '#333',
+    marginVertical: 2,
+  },
+  objectiveFailed: {
+    color: '#C62828',
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E0E0E0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  progressFailed: {
+    backgroundColor: '#C62828',
+  },
+  missionOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 900,
+  },
+  missionResult: {
+    width: 360,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 20,
+    alignItems: 'center',
+  },
+  missionResultTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#007BFF',
+    marginBottom: 10,
+  },
+  missionStars: {
+    fontSize: 32,
+    color: '#FFA000',
+    marginBottom: 5,
+  },
+  missionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+    marginTop: 15,
+  },
   controlLabel: {
     fontWeight: 'bold',
     marginBottom: 5,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  optionChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  optionChipActive: {
+    backgroundColor: '#007BFF',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#007BFF',
+  },
+  optionTextActive: {
+    color: '#fff',
+  },
   sliderContainer: {
     alignItems: 'center',
     marginVertical: 10,
   },
+  sliderDisabled: {
+    opacity: 0.4,
+  },
   slider: {
     width: Dimensions.get('window').width * 0.55, // match the graph width
     height: 20,
@@ -456,6 +1973,13 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 10,
   },
+  exportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
   graphInfo: {
     backgroundColor: '#F0F8FF',
     padding: 10,
@@ -468,6 +1992,35 @@ const styles = StyleSheet.create({
     color: '#333',
     marginVertical: 2,
   },
+  warningText: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#C62828',
+    fontWeight: 'bold',
+    marginVertical: 2,
+  },
+  runPanel: {
+    backgroundColor: '#F0F8FF',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#007BFF',
+    borderRadius: 6,
+    padding: 8,
+    marginBottom: 10,
+    backgroundColor: '#fff',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  runButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
   apparatusContainer: {
     width: '90%',
     height: 400,
@@ -518,6 +2071,48 @@ const styles = StyleSheet.create({
   rightGasLabel: {
     right: 10,
   },
+  crackedBeaker: {
+    borderColor: '#C62828',
+    borderStyle: 'dashed',
+  },
+  thermometer: {
+    position: 'absolute',
+    right: -30,
+    top: 100,
+    width: 30,
+    alignItems: 'center',
+    zIndex: 5,
+  },
+  thermometerLabel: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 2,
+  },
+  thermometerWarning: {
+    color: '#C62828',
+  },
+  thermometerTube: {
+    width: 8,
+    height: 160,
+    borderWidth: 1,
+    borderColor: '#777',
+    borderRadius: 4,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  thermometerColumn: {
+    width: '100%',
+    backgroundColor: '#E53935',
+  },
+  thermometerBulb: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    marginTop: -2,
+    backgroundColor: '#E53935',
+  },
   solution: {
     position: 'absolute',
     top: 0,
@@ -544,6 +2139,58 @@ const styles = StyleSheet.create({
   rightScrew: {
     left: '15%',
   },
+  platedItem: {
+    position: 'absolute',
+    top: ELECTRODE_TOP,
+    width: 50,
+    height: ELECTRODE_HEIGHT,
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  platedPart: {
+    position: 'absolute',
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  platedCoat: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  keyHead: {
+    top: 0,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  keyShaft: {
+    top: 34,
+    width: 10,
+    height: 60,
+  },
+  keyTooth: {
+    top: 70,
+    left: 29,
+    width: 12,
+    height: 18,
+  },
+  coin: {
+    top: 30,
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+  },
+  spoonHandle: {
+    top: 0,
+    width: 8,
+    height: 55,
+    borderRadius: 4,
+  },
+  spoonBowl: {
+    top: 50,
+    width: 34,
+    height: 50,
+    borderRadius: 17,
+  },
   screwText: {
     color: '#ffffff',
     fontSize: 10,
@@ -583,6 +2230,10 @@ const styles = StyleSheet.create({
     justifyContent: 'flex-start', // Position label at the top
     position: 'relative', // Needed for absolute positioning of label if needed
   },
+  saltBridgeDried: {
+    borderColor: '#A1887F',
+    borderStyle: 'dashed',
+  },
   saltBridgeLabel: {
     fontSize: 12,
     fontWeight: 'bold',
@@ -637,11 +2288,42 @@ const styles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
     backgroundColor: '#FFCC00',
-    // Position relative to saltBridge if rendered inside, adjust top/left as needed
-    top: 20, // Example position within the salt bridge curve
-    left: '20%', // Example horizontal position
+    // Moved along the arch with transforms, from the saltBridge's top-left corner
+    top: 0,
+    left: 0,
     zIndex: 19, // Ensure ions are above the salt bridge border
   },
+  instrumentsRow: {
+    width: '95%',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  instrumentOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  instrumentNote: {
+    fontSize: 10,
+    color: '#555',
+    marginTop: 2,
+  },
+  // Over the electrodes (30 px wide, 15% from the inner wall), above the bubbles' start.
+  gasTube: {
+    top: 25,
+    height: ELECTRODE_TOP - 30,
+  },
+  leftGasTube: {
+    right: '15%',
+    marginRight: 4,
+  },
+  rightGasTube: {
+    left: '15%',
+    marginLeft: 4,
+  },
   reactionsContainer: {
     width: '90%',
     flexDirection: 'row',
@@ -665,12 +2347,27 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#007BFF',
   },
+  bubbleField: {
+    position: 'absolute',
+    top: 0,
+    width: BUBBLE_FIELD_WIDTH,
+    height: BEAKER_HEIGHT,
+    zIndex: 11,
+  },
+  // Centred on the electrodes, which are 30 px wide at 15% from the inner wall.
+  leftBubbleField: {
+    right: '15%',
+    marginRight: -15,
+  },
+  rightBubbleField: {
+    left: '15%',
+    marginLeft: -15,
+  },
   bubble: {
     position: 'absolute',
-    width: 20,
-    height: 20,
-    borderRadius: 10,
-    backgroundColor: 'rgba(173, 216, 230, 0.8)' // Assuming a default color
+    top: 0,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.2)',
   },
 });
 
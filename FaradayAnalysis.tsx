@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  AVOGADRO,
+  FaradaySource,
+  faradayFromPoints,
+  faradayPoints,
+  faradaySources,
+  percentError,
+} from './analysis';
+import { PRODUCTS } from './electrolytes';
+import { recordedProducts } from './exportData';
+import { NumberFormat, useLocale } from './i18n';
+import { Strings } from './ro';
+import { FARADAY, SimulationParams, SimulationSample } from './simulation';
+
+interface FaradayAnalysisProps {
+  samples: SimulationSample[];
+  params: SimulationParams;
+  noise: boolean; // read the tube and balance like real instruments
+}
+
+const POINT_COUNTS = [5, 10, 20];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '-': '⁻', '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+};
+
+// 5.18 × 10⁻⁶, as written in a lab notebook.
+const scientific = (value: number, n: NumberFormat, digits = 3) => {
+  if (value === 0) return '0';
+  const [mantissa, exponent] = value.toExponential(digits - 1).split('e');
+  const power = String(Number(exponent)).replace(/./g, char => SUPERSCRIPTS[char]);
+  const shown = n(Number(mantissa), digits - 1);
+  return exponent === '+0' ? shown : `${shown} × 10${power}`;
+};
+
+const sourceLabel = (source: FaradaySource, s: Strings) =>
+  `${PRODUCTS[source.productId].label} – ${s.faraday.methods[source.method]}`;
+
+// Guided determination of F and N_A from the run: moles of one product
+// against the charge passed, a least-squares line and the constants from its slope.
+const FaradayAnalysis: React.FC<FaradayAnalysisProps> = ({ samples, params, noise }) => {
+  const { s, n } = useLocale();
+  const sources = faradaySources(params, recordedProducts(samples));
+  const [productId, setProductId] = useState<string>('');
+  const [pointCount, setPointCount] = useState<number>(POINT_COUNTS[1]);
+  const source = sources.find(entry => entry.productId === productId) ?? sources[0];
+
+  const points = source ? faradayPoints(samples, params, source, pointCount, noise) : [];
+  const result = source ? faradayFromPoints(points, source.electrons) : null;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>{s.faraday.title}</Text>
+      {!source ? (
+        <Text style={styles.hint}>{s.faraday.noProduct}</Text>
+      ) : (
+        <>
+          <Text style={styles.step}>{s.faraday.chooseProduct}</Text>
+          <View style={styles.row}>
+            {sources.map(entry => (
+              <TouchableOpacity
+                key={entry.productId}
+                style={[styles.chip, entry === source && styles.chipActive]}
+                onPress={() => setProductId(entry.productId)}
+              >
+                <Text style={[styles.chipText, entry === source && styles.chipTextActive]}>{sourceLabel(entry, s)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.step}>{s.faraday.recordPoints}</Text>
+          <View style={styles.row}>
+            {POINT_COUNTS.map(count => (
+              <TouchableOpacity
+                key={count}
+                style={[styles.chip, count === pointCount && styles.chipActive]}
+                onPress={() => setPointCount(count)}
+              >
+                <Text style={[styles.chipText, count === pointCount && styles.chipTextActive]}>{s.faraday.points(count)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.headerRow]}>
+              <Text style={[styles.cell, styles.headerCell]}>Q (C)</Text>
+              <Text style={[styles.cell, styles.headerCell]}>n (mmol)</Text>
+            </View>
+            {points.map(([charge, moles], index) => (
+              <View key={index} style={styles.tableRow}>
+                <Text style={styles.cell}>{n(charge, 1)}</Text>
+                <Text style={styles.cell}>{n(moles * 1000, 4)}</Text>
+              </View>
+            ))}
+          </View>
+          {source.method === 'gas' && points.length < pointCount && (
+            <Text style={styles.hint}>{s.faraday.tubeFull}</Text>
+          )}
+          <Text style={styles.step}>{s.faraday.regression}</Text>
+          {!result ? (
+            <Text style={styles.hint}>{s.faraday.tooFewPoints}</Text>
+          ) : (
+            <>
+              <Text style={styles.result}>
+                a = ({scientific(result.fit.slope, n, 4)} ± {scientific(result.fit.slopeError, n, 2)}) mol/C
+              </Text>
+              <Text style={styles.result}>
+                b = ({scientific(result.fit.intercept, n, 3)} ± {scientific(result.fit.interceptError, n, 2)}) mol | R² ={' '}
+                {n(result.fit.rSquared, 5)}
+              </Text>
+              <Text style={styles.step}>{s.faraday.constants(source.electrons)}</Text>
+              <Text style={styles.result}>
+                {s.faraday.faraday(
+                  n(result.faraday),
+                  n(result.faradayError),
+                  n(percentError(result.faraday, FARADAY), 2),
+                  n(FARADAY),
+                )}
+              </Text>
+              <Text style={styles.result}>
+                {s.faraday.avogadro(
+                  scientific(result.avogadro, n, 4),
+                  scientific(result.avogadroError, n, 2),
+                  n(percentError(result.avogadro, AVOGADRO), 2),
+                )}
+              </Text>
+              {Math.abs(percentError(result.faraday, FARADAY)) > 5 && (
+                <Text style={styles.hint}>{s.faraday.largeError}</Text>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#F0F8FF',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#007BFF',
+    textAlign: 'center',
+    marginBottom: 5,
+  },
+  step: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  chipActive: {
+    backgroundColor: '#007BFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#007BFF',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#007BFF',
+    borderRadius: 6,
+    marginVertical: 5,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerRow: {
+    backgroundColor: '#E3F2FD',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    paddingVertical: 2,
+    textAlign: 'center',
+    color: '#333',
+  },
+  headerCell: {
+    fontWeight: 'bold',
+    color: '#007BFF',
+  },
+  result: {
+    fontSize: 13,
+    color: '#333',
+    marginVertical: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+    marginVertical: 3,
+  },
+});
+
+export default FaradayAnalysis;
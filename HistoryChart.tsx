@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { LineChart } from 'react-native-chart-kit';
+import { ChartSeries } from './exportData';
+import { NumberFormat, useLocale } from './i18n';
+
+interface HistoryChartProps {
+  series: ChartSeries[];
+  width: number;
+  height: number;
+}
+
+// Points drawn across the visible window, whatever the length of the run.
+const GRID_POINTS = 40;
+const X_TICKS = 6;
+const MIN_DURATION = 10; // s, the chart never spans less than this
+const MAX_ZOOM = 64;
+// Points of each series the chart reads from; a long run is thinned to this
+// copy for drawing only, the run itself keeps every sample.
+const MAX_DRAWN_POINTS = 600;
+
+// Evenly spaced points of a series, always with its first and last.
+export const decimatePoints = (points: [number, number][], max: number): [number, number][] => {
+  if (points.length <= max) return points;
+  const step = (points.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, index) => points[Math.round(index * step)]);
+};
+
+// Value of a series at time t, interpolated linearly between samples. Before the
+// first sample nothing had been produced; after the last the run had stopped.
+export const valueAt = (points: [number, number][], t: number): number => {
+  if (!points.length || t < points[0][0]) return 0;
+  const last = points[points.length - 1];
+  if (t >= last[0]) return last[1];
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (points[mid][0] <= t) low = mid;
+    else high = mid;
+  }
+  const [t0, y0] = points[low];
+  const [t1, y1] = points[high];
+  return y0 + ((y1 - y0) * (t - t0)) / (t1 - t0);
+};
+
+const formatTime = (seconds: number, n: NumberFormat) =>
+  seconds >= 120 ? `${n(seconds / 60, 1)}m` : `${Math.round(seconds)}s`;
+
+// Line chart of a whole run (or several) with zoom and pan along the time axis.
+const HistoryChart: React.FC<HistoryChartProps> = ({ series: recorded, width, height }) => {
+  const { s, n } = useLocale();
+  const series = useMemo(
+    () => recorded.map(line => ({ ...line, points: decimatePoints(line.points, MAX_DRAWN_POINTS) })),
+    [recorded],
+  );
+  const [zoom, setZoom] = useState(1);
+  // Position of the window along the run: 0 = start, 1 = follow the latest data.
+  const [pan, setPan] = useState(1);
+
+  const duration = Math.max(
+    MIN_DURATION,
+    ...series.map(line => (line.points.length ? line.points[line.points.length - 1][0] : 0)),
+  );
+  const windowLength = duration / zoom;
+  const start = pan * (duration - windowLength);
+  const times = Array.from(
+    { length: GRID_POINTS },
+    (_, i) => start + (windowLength * i) / (GRID_POINTS - 1),
+  );
+  const tickEvery = Math.round((GRID_POINTS - 1) / (X_TICKS - 1));
+  const labels = times.map((t, i) => (i % tickEvery === 0 ? formatTime(t, n) : ''));
+
+  const hasData = series.some(line => line.points.length);
+  const datasets = hasData
+    ? series.map(line => ({
+        data: times.map(t => valueAt(line.points, t)),
+        color: () => line.color,
+        strokeWidth: 2,
+      }))
+    : [{ data: [0], color: () => '#007BFF', strokeWidth: 2 }];
+
+  return (
+    <View>
+      <LineChart
+        data={{
+          labels: hasData ? labels : ['0'],
+          datasets,
+          legend: hasData ? series.map(line => line.label) : [],
+        }}
+        width={width}
+        height={height}
+        chartConfig={{
+          backgroundColor: '#E3F2FD',
+          backgroundGradientFrom: '#E3F2FD',
+          backgroundGradientTo: '#E3F2FD',
+          decimalPlaces: 1,
+          color: (opacity = 1) => `rgba(0, 123, 255, ${opacity})`,
+          labelColor: (opacity = 1) => `rgba(51, 51, 51, ${opacity})`,
+          style: { borderRadius: 16 },
+          fillShadowGradientOpacity: 0,
+        }}
+        formatYLabel={label => n(Number(label), 1)}
+        withDots={false}
+        withInnerLines={true}
+        withOuterLines={true}
+        fromZero={true}
+        style={styles.chart}
+      />
+      <View style={styles.zoomBar}>
+        <TouchableOpacity
+          style={styles.zoomButton}
+          onPress={() => setZoom(Math.max(1, zoom / 2))}
+          disabled={zoom === 1}
+        >
+          <Text style={styles.zoomText}>−</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.zoomButton}
+          onPress={() => setZoom(Math.min(MAX_ZOOM, zoom * 2))}
+          disabled={zoom === MAX_ZOOM}
+        >
+          <Text style={styles.zoomText}>+</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.zoomButton}
+          onPress={() => {
+            setZoom(1);
+            setPan(1);
+          }}
+        >
+          <Text style={styles.zoomText}>{s.chart.all}</Text>
+        </TouchableOpacity>
+        <Text style={styles.windowText}>
+          {formatTime(start, n)} – {formatTime(start + windowLength, n)} (×{zoom})
+        </Text>
+      </View>
+      {zoom > 1 && (
+        <Slider
+          style={{ width, height: 20 }}
+          minimumValue={0}
+          maximumValue={1}
+          value={pan}
+          onValueChange={setPan}
+          minimumTrackTintColor="#007BFF"
+          maximumTrackTintColor="#ccc"
+          thumbTintColor="#009688"
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+    alignSelf: 'center',
+  },
+  zoomBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 5,
+  },
+  zoomButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginHorizontal: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  zoomText: {
+    fontSize: 14,
+    color: '#007BFF',
+  },
+  windowText: {
+    fontSize: 12,
+    color: '#333',
+    marginLeft: 8,
+  },
+});
+
+export default HistoryChart;
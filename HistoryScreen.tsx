@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { getElectrolyte } from './electrolytes';
+import { cellNotation } from './galvanic';
+import { byId, useLocale } from './i18n';
+import { getMission } from './missions';
+import {
+  RunSummary,
+  SavedRun,
+  deleteRun,
+  duplicateRun,
+  listRuns,
+  loadRun,
+  renameRun,
+} from './storage';
+import './App.css';
+
+interface HistoryScreenProps {
+  onBack: () => void;
+  onOpenRun: (run: SavedRun) => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`;
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onOpenRun }) => {
+  const { s, n } = useLocale();
+  const [runs, setRuns] = useState<RunSummary[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const refresh = () => listRuns().then(setRuns);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const open = async (id: string) => {
+    const run = await loadRun(id);
+    if (run) onOpenRun(run);
+  };
+
+  const startRename = (run: RunSummary) => {
+    setEditingId(run.id);
+    setDraftName(run.name);
+  };
+
+  const confirmRename = async () => {
+    if (editingId && draftName.trim()) await renameRun(editingId, draftName.trim());
+    setEditingId(null);
+    refresh();
+  };
+
+  const duplicate = async (id: string) => {
+    await duplicateRun(id, s.history.copyName);
+    refresh();
+  };
+
+  const remove = async (run: RunSummary) => {
+    if (!window.confirm(s.history.confirmDelete(run.name))) return;
+    await deleteRun(run.id);
+    refresh();
+  };
+
+  return (
+    <div className="history-screen">
+      <div className="header-bar">
+        <button onClick={onBack} className="back-button">{s.common.back}</button>
+        <h2>{s.history.title}</h2>
+      </div>
+      {runs === null && <p>{s.history.loading}</p>}
+      {runs?.length === 0 && <p>{s.history.empty}</p>}
+      <div className="run-cards">
+        {runs?.map(run => {
+          const mission = run.missionId ? getMission(run.missionId) : undefined;
+          return (
+            <div className="run-card" key={run.id}>
+              {editingId === run.id ? (
+                <div className="run-rename">
+                  <input
+                    value={draftName}
+                    onChange={event => setDraftName(event.target.value)}
+                    onKeyDown={event => event.key === 'Enter' && confirmRename()}
+                    autoFocus
+                  />
+                  <button onClick={confirmRename}>OK</button>
+                </div>
+              ) : (
+                <h3>{run.name}</h3>
+              )}
+              <p>
+                {run.params.cell === 'galvanic'
+                  ? cellNotation(
+                      { cathode: run.params.cathodeMaterial, anode: run.params.anodeMaterial },
+                      run.params.ionConcentrations,
+                      molarity => n(molarity, 2, true),
+                    )
+                  : byId(s.electrolytes, getElectrolyte(run.params.electrolyte).id).formula}
+                {mission ? s.history.mission(byId(s.missionTexts, mission.id).title) : ''}
+              </p>
+              <p>
+                {s.history.duration(formatDuration(run.duration))} · {run.finished ? s.history.finished : s.history.inProgress}
+              </p>
+              <p className="run-date">
+                {s.history.modified(new Date(run.updatedAt).toLocaleString(s.language.locale))}
+              </p>
+              {run.notes ? <p className="run-notes">{run.notes}</p> : null}
+              <div className="run-actions">
+                <button onClick={() => open(run.id)}>{run.finished ? s.history.open : s.history.resume}</button>
+                <button onClick={() => startRename(run)}>{s.history.rename}</button>
+                <button onClick={() => duplicate(run.id)}>{s.history.duplicate}</button>
+                <button className="danger" onClick={() => remove(run)}>{s.history.delete}</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryScreen;
@@ -1,19 +1,27 @@
 import React from 'react';
+import { useLocale } from './i18n';
 import './App.css';
 
 interface HomeScreenProps {
-  onSelectMode: (mode: 'experiment') => void;
+  onSelectMode: (mode: 'experiment' | 'missions' | 'history') => void;
 }
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ onSelectMode }) => {
+  const { s } = useLocale();
   return (
     <div className="home-screen">
       <header className="home-header">
-        <h1> Electroliza </h1>
+        <h1>{s.home.title}</h1>
       </header>
       <div className="mode-selection">
         <button className="mode-button" onClick={() => onSelectMode('experiment')}>
-          Deschide Experimentarea
+          {s.home.experiment}
+        </button>
+        <button className="mode-button" onClick={() => onSelectMode('missions')}>
+          {s.home.missions}
+        </button>
+        <button className="mode-button" onClick={() => onSelectMode('history')}>
+          {s.home.history}
         </button>
       </div>
     </div>
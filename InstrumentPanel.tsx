@@ -0,0 +1,204 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { useLocale } from './i18n';
+import { INSTRUMENTS, InstrumentId, TUBE_MAJOR_DIVISION, formatReading } from './instruments';
+
+// Digital display of one instrument: name, reading and unit.
+export const DigitalMeter: React.FC<{ id: InstrumentId; reading: number | null; children?: React.ReactNode }> = ({
+  id,
+  reading,
+  children,
+}) => {
+  const { s, n } = useLocale();
+  return (
+    <View style={styles.meter}>
+      <Text style={styles.meterName}>{s.instruments.names[id]}</Text>
+      <View style={styles.display}>
+        <Text style={styles.displayText}>
+          {formatReading(id, reading, n)} {INSTRUMENTS[id].unit}
+        </Text>
+      </View>
+      {children}
+    </View>
+  );
+};
+
+const MeterButton: React.FC<{ title: string; onPress: () => void; disabled?: boolean }> = ({
+  title,
+  onPress,
+  disabled,
+}) => (
+  <TouchableOpacity style={[styles.meterButton, disabled && styles.disabled]} onPress={onPress} disabled={disabled}>
+    <Text style={styles.meterButtonText}>{title}</Text>
+  </TouchableOpacity>
+);
+
+export const Stopwatch: React.FC<{
+  reading: number | null;
+  running: boolean;
+  onToggle: () => void;
+  onReset: () => void;
+}> = ({ reading, running, onToggle, onReset }) => {
+  const { s } = useLocale();
+  return (
+    <DigitalMeter id="stopwatch" reading={reading}>
+      <View style={styles.buttonRow}>
+        <MeterButton title={running ? s.instruments.stop : s.instruments.start} onPress={onToggle} />
+        <MeterButton title={s.instruments.zero} onPress={onReset} disabled={running} />
+      </View>
+    </DigitalMeter>
+  );
+};
+
+export interface Weighing {
+  label: string;
+  time: number; // s of simulation time when it was weighed
+  reading: number | null; // g
+}
+
+// Analytic balance: each weighing is kept so the masses before and after can
+// be compared.
+export const Balance: React.FC<{
+  reading: number | null;
+  weighings: Weighing[];
+  targets: { label: string; onWeigh: () => void }[];
+}> = ({ reading, weighings, targets }) => {
+  const { n } = useLocale();
+  return (
+    <DigitalMeter id="balance" reading={reading}>
+      <View style={styles.buttonRow}>
+        {targets.map(target => (
+          <MeterButton key={target.label} title={target.label} onPress={target.onWeigh} />
+        ))}
+      </View>
+      {weighings.map((weighing, index) => (
+        <Text key={index} style={styles.logText}>
+          t = {weighing.time} s · {weighing.label}: {formatReading('balance', weighing.reading, n)} g
+        </Text>
+      ))}
+    </DigitalMeter>
+  );
+};
+
+// Inverted graduated tube over an electrode (as in a Hofmann apparatus). Gas
+// gathers at the closed top and pushes the liquid down; the scale reads down
+// from 0 at the top.
+export const GasTube: React.FC<{
+  volume: number; // mL of gas in the tube
+  color: string;
+  style?: StyleProp<ViewStyle>;
+}> = ({ volume, color, style }) => {
+  const { s } = useLocale();
+  const capacity = INSTRUMENTS.gasTube.max;
+  const fill = Math.min(1, Math.max(0, volume / capacity));
+  const marks = Array.from({ length: capacity / TUBE_MAJOR_DIVISION + 1 }, (_, i) => i * TUBE_MAJOR_DIVISION);
+  return (
+    <View style={[styles.tube, style]} pointerEvents="none">
+      <View style={[styles.tubeGas, { height: `${fill * 100}%`, backgroundColor: color }]} />
+      {marks.map(mark => (
+        <View key={mark} style={[styles.tubeMark, { top: `${(mark / capacity) * 100}%` }]}>
+          <Text style={styles.tubeMarkText}>{mark}</Text>
+        </View>
+      ))}
+      {volume > capacity && <Text style={styles.tubeFull}>{s.instruments.full}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  meter: {
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BDBDBD',
+    padding: 6,
+    margin: 4,
+    minWidth: 110,
+  },
+  meterName: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 3,
+  },
+  display: {
+    backgroundColor: '#C8D8B0',
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#7A8B66',
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+  },
+  displayText: {
+    fontSize: 16,
+    color: '#1B2410',
+    fontFamily: 'monospace',
+    fontVariant: ['tabular-nums'],
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 4,
+  },
+  meterButton: {
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    margin: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  meterButtonText: {
+    fontSize: 11,
+    color: '#007BFF',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  logText: {
+    fontSize: 10,
+    color: '#333',
+  },
+  tube: {
+    position: 'absolute',
+    width: 22,
+    borderWidth: 1,
+    borderColor: '#90A4AE',
+    borderTopLeftRadius: 11,
+    borderTopRightRadius: 11,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    overflow: 'hidden',
+    zIndex: 12,
+  },
+  tubeGas: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    opacity: 0.8,
+  },
+  tubeMark: {
+    position: 'absolute',
+    left: 0,
+    width: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#455A64',
+  },
+  tubeMarkText: {
+    position: 'absolute',
+    left: 9,
+    top: -6,
+    fontSize: 7,
+    color: '#263238',
+  },
+  tubeFull: {
+    position: 'absolute',
+    bottom: 2,
+    alignSelf: 'center',
+    fontSize: 8,
+    fontWeight: 'bold',
+    color: '#C62828',
+  },
+});
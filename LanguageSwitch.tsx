@@ -0,0 +1,24 @@
+import React from 'react';
+import { CATALOGUES, LANGUAGES, useLocale } from './i18n';
+import './App.css';
+
+// Buttons for the interface languages, in a corner of every screen.
+const LanguageSwitch: React.FC = () => {
+  const { language, setLanguage } = useLocale();
+  return (
+    <div className="language-switch">
+      {LANGUAGES.map(option => (
+        <button
+          key={option}
+          className={option === language ? 'active' : undefined}
+          lang={option}
+          onClick={() => setLanguage(option)}
+        >
+          {CATALOGUES[option].language.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitch;
@@ -1,30 +1,42 @@
 import React from 'react';
+import { byId, useLocale } from './i18n';
+import { MISSIONS, MissionResult } from './missions';
 import './App.css';
 
 interface MissionsScreenProps {
   onBack: () => void;
+  onStartMission: (missionId: string) => void;
+  results: Record<string, MissionResult>;
 }
 
-const MissionsScreen: React.FC<MissionsScreenProps> = ({ onBack }) => {
+const MissionsScreen: React.FC<MissionsScreenProps> = ({ onBack, onStartMission, results }) => {
+  const { s } = useLocale();
   return (
     <div className="missions-screen">
       <div className="header-bar">
-        <button onClick={onBack} className="back-button">Back</button>
-        <h2>Missions</h2>
+        <button onClick={onBack} className="back-button">{s.common.back}</button>
+        <h2>{s.missions.title}</h2>
       </div>
       <div className="mission-cards">
-        <div className="mission-card">
-          <h3>Copper Refining</h3>
-          <p>Goal: Deposit Copper Metal</p>
-          <p>Progress: 60%</p>
-          <button>Start Mission ▶</button>
-        </div>
-        <div className="mission-card">
-          <h3>Hydrogen Production</h3>
-          <p>Goal: Collect Hydrogen Gas</p>
-          <p>Progress: 40%</p>
-          <button>Start Mission ▶</button>
-        </div>
+        {MISSIONS.map(mission => {
+          const result = results[mission.id];
+          const text = byId(s.missionTexts, mission.id);
+          return (
+            <div className="mission-card" key={mission.id}>
+              <h3>{text.title}</h3>
+              <p>{s.missions.goal(text.goal)}</p>
+              <p>{s.missions.progress(Math.round((result?.progress ?? 0) * 100))}</p>
+              {result?.completed && (
+                <p className="mission-score">
+                  {'★'.repeat(result.stars)}{'☆'.repeat(3 - result.stars)} {s.common.score(result.score)}
+                </p>
+              )}
+              <button onClick={() => onStartMission(mission.id)}>
+                {result?.completed ? s.missions.playAgain : s.missions.start}
+              </button>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PRODUCTS } from './electrolytes';
+import { byId, useLocale } from './i18n';
+import {
+  DepositQuality,
+  PlatedObject,
+  coatingQuality,
+  currentDensity,
+  depositQuality,
+  platingRange,
+  platingResult,
+} from './plating';
+import { CellElectrics, SimulationParams, SimulationSample, SimulationState } from './simulation';
+
+interface PlatingPanelProps {
+  object: PlatedObject;
+  state: SimulationState;
+  samples: SimulationSample[];
+  params: SimulationParams;
+  electrics: CellElectrics;
+}
+
+const QUALITY_COLORS: Record<DepositQuality, string> = {
+  slow: '#607D8B',
+  good: '#2E7D32',
+  rough: '#EF6C00',
+  burnt: '#C62828',
+};
+
+// Coating on the plated object: mass and thickness worked out from the charge,
+// and how the current density is treating the deposit.
+const PlatingPanel: React.FC<PlatingPanelProps> = ({ object, state, samples, params, electrics }) => {
+  const { s, n } = useLocale();
+  const objectName = byId(s.platedObjects, object.id);
+  const result = platingResult(state, params);
+  if (!result) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.title}>{s.plating.title(objectName)}</Text>
+        <Text style={styles.hint}>{s.plating.noMetal}</Text>
+      </View>
+    );
+  }
+  const product = PRODUCTS[result.productId];
+  const density = currentDensity(electrics.current, params.electrodeArea);
+  const [min, max] = platingRange(result.productId);
+  const now = depositQuality(result.productId, density);
+  const coating = coatingQuality(samples, result.productId, params.electrodeArea);
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>
+        {s.plating.coating(objectName, params.electrodeArea, byId(s.products, result.productId))}
+      </Text>
+      <Text style={styles.result}>
+        {s.plating.currentDensity(n(density, 2), n(min, 1, true), n(max, 1, true))}
+      </Text>
+      {electrics.current > 0 && (
+        <Text style={[styles.result, { color: QUALITY_COLORS[now] }]}>
+          {s.plating.depositNow(s.depositQuality[now])}
+        </Text>
+      )}
+      {(now === 'rough' || now === 'burnt') && electrics.current > 0 && (
+        <Text style={styles.warning}>{s.plating.tooMuchCurrent(n((max * params.electrodeArea) / 100, 2))}</Text>
+      )}
+      <Text style={styles.result}>
+        {s.plating.masses(n(result.theoreticalMass * 1000, 1), n(result.mass * 1000, 1), n(result.efficiency, 1))}
+      </Text>
+      <Text style={styles.result}>
+        {s.plating.thickness(n(result.thickness, 2), n(product.density ?? 0, 2, true))}
+      </Text>
+      {result.mass > 0 && (
+        <Text style={[styles.result, { color: QUALITY_COLORS[coating] }]}>
+          {s.plating.appearance(s.depositQuality[coating])}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#FFF8E1',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#007BFF',
+    textAlign: 'center',
+    marginBottom: 5,
+  },
+  result: {
+    fontSize: 13,
+    color: '#333',
+    marginVertical: 2,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#C62828',
+    marginVertical: 3,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+    marginVertical: 3,
+  },
+});
+
+export default PlatingPanel;
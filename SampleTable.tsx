@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { PRODUCTS } from './electrolytes';
+import { recordedProducts } from './exportData';
+import { useLocale } from './i18n';
+import { SimulationSample, productAmount, productUnit } from './simulation';
+
+interface SampleTableProps {
+  samples: SimulationSample[];
+}
+
+const ROWS_PER_PAGE = 20;
+
+// Tabular view of the same samples the chart draws, a page at a time.
+const SampleTable: React.FC<SampleTableProps> = ({ samples }) => {
+  const { s, n } = useLocale();
+  const pageCount = Math.max(1, Math.ceil(samples.length / ROWS_PER_PAGE));
+  // null follows the last page while the run is still recording.
+  const [page, setPage] = useState<number | null>(null);
+  const shownPage = Math.min(page ?? pageCount - 1, pageCount - 1);
+  const rows = samples.slice(shownPage * ROWS_PER_PAGE, (shownPage + 1) * ROWS_PER_PAGE);
+  const products = recordedProducts(samples);
+
+  const header = [
+    't (s)',
+    'U (V)',
+    'I (A)',
+    'Q (C)',
+    ...products.map(id => `${PRODUCTS[id].label} (${productUnit(id)})`),
+    s.table.cathodeMass,
+    s.table.anodeMass,
+  ];
+
+  return (
+    <View style={styles.table}>
+      <View style={[styles.row, styles.headerRow]}>
+        {header.map(title => (
+          <Text key={title} style={[styles.cell, styles.headerCell]}>{title}</Text>
+        ))}
+      </View>
+      {rows.map(sample => (
+        <View key={sample.time} style={styles.row}>
+          <Text style={styles.cell}>{sample.time}</Text>
+          <Text style={styles.cell}>{n(sample.voltage, 2)}</Text>
+          <Text style={styles.cell}>{n(sample.current, 3)}</Text>
+          <Text style={styles.cell}>{n(sample.charge, 1)}</Text>
+          {products.map(id => (
+            <Text key={id} style={styles.cell}>
+              {n(productAmount(id, sample.products[id]), 2)}
+            </Text>
+          ))}
+          <Text style={styles.cell}>{n(sample.electrodes.cathode, 4)}</Text>
+          <Text style={styles.cell}>{n(sample.electrodes.anode, 4)}</Text>
+        </View>
+      ))}
+      {!samples.length && <Text style={styles.empty}>{s.table.empty}</Text>}
+      <View style={styles.pager}>
+        <TouchableOpacity onPress={() => setPage(Math.max(0, shownPage - 1))} disabled={shownPage === 0}>
+          <Text style={styles.pagerText}>◀</Text>
+        </TouchableOpacity>
+        <Text style={styles.pagerLabel}>{s.table.page(shownPage + 1, pageCount)}</Text>
+        <TouchableOpacity
+          onPress={() => setPage(shownPage + 1 >= pageCount - 1 ? null : shownPage + 1)}
+          disabled={shownPage >= pageCount - 1}
+        >
+          <Text style={styles.pagerText}>▶</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  table: {
+    borderWidth: 1,
+    borderColor: '#007BFF',
+    borderRadius: 10,
+    padding: 5,
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerRow: {
+    backgroundColor: '#E3F2FD',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 11,
+    paddingVertical: 3,
+    paddingHorizontal: 2,
+    textAlign: 'center',
+    color: '#333',
+  },
+  headerCell: {
+    fontWeight: 'bold',
+    color: '#007BFF',
+  },
+  empty: {
+    fontSize: 12,
+    textAlign: 'center',
+    color: '#777',
+    marginVertical: 10,
+  },
+  pager: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 5,
+  },
+  pagerText: {
+    fontSize: 16,
+    color: '#007BFF',
+    paddingHorizontal: 10,
+  },
+  pagerLabel: {
+    fontSize: 12,
+    color: '#333',
+  },
+});
+
+export default SampleTable;
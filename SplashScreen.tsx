@@ -1,4 +1,5 @@
 import React from 'react';
+import { useLocale } from './i18n';
 import './App.css';
 
 interface SplashScreenProps {
@@ -6,12 +7,13 @@ interface SplashScreenProps {
 }
 
 const SplashScreen: React.FC<SplashScreenProps> = ({ onGetStarted }) => {
+  const { s } = useLocale();
   return (
     <div className="splash-screen">
       <div className="splash-content">
-        <h1>Laborator electroliza</h1>
-        <p>Simulare experimente de electroliză</p>
-        <button onClick={onGetStarted}>Să incepem</button>
+        <h1>{s.splash.title}</h1>
+        <p>{s.splash.subtitle}</p>
+        <button onClick={onGetStarted}>{s.splash.start}</button>
       </div>
     </div>
   );
@@ -0,0 +1,331 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { LineChart } from 'react-native-chart-kit';
+import { PRODUCTS } from './electrolytes';
+import { SERIES_COLORS } from './exportData';
+import { useLocale } from './i18n';
+import {
+  SimulationParams,
+  cellElectrics,
+  createSimulationState,
+  electrodeReactions,
+  productUnit,
+} from './simulation';
+import {
+  SWEEP_PARAMETERS,
+  SweepParameter,
+  SweepPoint,
+  SweepSpec,
+  analysePolarisation,
+  getSweepParameter,
+  sweepDwell,
+  sweepPoints,
+} from './sweep';
+
+interface SweepPanelProps {
+  params: SimulationParams;
+  width: number;
+}
+
+const STEP_OPTIONS = [10, 20, 40];
+const RATE_OPTIONS = [0.05, 0.2, 1]; // V/s
+const X_LABELS = 6;
+
+// Sweep setup and its chart: the I–V curve for voltage, production rates for
+// the other parameters.
+const SweepPanel: React.FC<SweepPanelProps> = ({ params, width }) => {
+  const { s, n } = useLocale();
+  const galvanic = params.cell === 'galvanic';
+  const parameters = SWEEP_PARAMETERS.filter(info => !galvanic || info.id !== 'voltage');
+  const [parameter, setParameter] = useState<SweepParameter>(parameters[0].id);
+  const info = getSweepParameter(parameter);
+  const [range, setRange] = useState({ from: info.from, to: info.to });
+  const [steps, setSteps] = useState<number>(STEP_OPTIONS[1]);
+  const [rate, setRate] = useState<number>(RATE_OPTIONS[1]);
+  const [result, setResult] = useState<{ spec: SweepSpec; points: SweepPoint[] } | null>(null);
+  // Points measured so far of the sweep being run.
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const stop = () => {
+    clearTimeout(timer.current);
+    setProgress(null);
+  };
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const selectParameter = (id: SweepParameter) => {
+    const next = getSweepParameter(id);
+    setParameter(id);
+    setRange({ from: next.from, to: next.to });
+  };
+
+  // A galvanic cell cannot be swept in voltage, so switching to one picks the
+  // first parameter it can.
+  useEffect(() => {
+    if (!parameters.some(entry => entry.id === parameter)) selectParameter(parameters[0].id);
+  }, [params.cell]);
+
+  // One point per timer tick, so the page stays responsive and shows progress.
+  const start = () => {
+    const spec: SweepSpec = { parameter, from: range.from, to: range.to, steps, rate };
+    const points: SweepPoint[] = [];
+    const sweep = sweepPoints(params, spec);
+    const measure = () => {
+      const next = sweep.next();
+      if (next.done) {
+        setProgress(null);
+        setResult({ spec, points });
+        return;
+      }
+      points.push(next.value);
+      setProgress({ done: points.length, total: steps + 1 });
+      timer.current = setTimeout(measure);
+    };
+    clearTimeout(timer.current);
+    setProgress({ done: 0, total: steps + 1 });
+    timer.current = setTimeout(measure);
+  };
+
+  const shown = result && getSweepParameter(result.spec.parameter);
+  const voltageSweep = result?.spec.parameter === 'voltage';
+  const polarisation = voltageSweep && result ? analysePolarisation(result.points) : null;
+  const reversibleVoltage = cellElectrics(createSimulationState(params), params).decompositionVoltage;
+  const labelEvery = result ? Math.max(1, Math.round(result.points.length / X_LABELS)) : 1;
+  const labels = result
+    ? result.points.map((entry, i) => (i % labelEvery === 0 ? n(entry.value, 1, true) : ''))
+    : [];
+
+  // Products the cell makes, in the order of its main reactions.
+  const main = electrodeReactions(params);
+  const productIds = result
+    ? [main.cathode.product, main.anode.product, ...result.points.flatMap(entry => Object.keys(entry.rates))].filter(
+        (id, index, ids) => ids.indexOf(id) === index,
+      )
+    : [];
+
+  const datasets = !result
+    ? []
+    : voltageSweep
+      ? [
+          { data: result.points.map(entry => entry.current), color: () => SERIES_COLORS[0], strokeWidth: 2 },
+          // The ohmic line extrapolated down to zero current.
+          ...(polarisation
+            ? [
+                {
+                  data: result.points.map(entry =>
+                    Math.max(0, (entry.value - polarisation.decompositionVoltage) / polarisation.resistance),
+                  ),
+                  color: () => SERIES_COLORS[2],
+                  strokeWidth: 1,
+                },
+              ]
+            : []),
+        ]
+      : productIds.map((id, index) => ({
+          data: result.points.map(entry => entry.rates[id] ?? 0),
+          color: () => SERIES_COLORS[index % SERIES_COLORS.length],
+          strokeWidth: 2,
+        }));
+  const legend = !result
+    ? []
+    : voltageSweep
+      ? ['I (A)', ...(polarisation ? [s.sweep.ohmicLine] : [])]
+      : productIds.map(id => `${PRODUCTS[id].label} (${productUnit(id)}/s)`);
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.label}>{s.sweep.parameter}</Text>
+      <View style={styles.row}>
+        {parameters.map(entry => (
+          <TouchableOpacity
+            key={entry.id}
+            style={[styles.chip, entry.id === parameter && styles.chipActive]}
+            onPress={() => selectParameter(entry.id)}
+          >
+            <Text style={[styles.chipText, entry.id === parameter && styles.chipTextActive]}>{s.sweepParameters[entry.id]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.label}>{s.sweep.range(n(range.from, 2), n(range.to, 2), info.unit)}</Text>
+      <Slider
+        style={{ width: width * 0.8, height: 30, alignSelf: 'center' }}
+        minimumValue={info.min}
+        maximumValue={info.max}
+        value={range.from}
+        onValueChange={from => setRange({ ...range, from: Math.min(from, range.to) })}
+        minimumTrackTintColor="#007BFF"
+        maximumTrackTintColor="#ccc"
+        thumbTintColor="#009688"
+      />
+      <Slider
+        style={{ width: width * 0.8, height: 30, alignSelf: 'center' }}
+        minimumValue={info.min}
+        maximumValue={info.max}
+        value={range.to}
+        onValueChange={to => setRange({ ...range, to: Math.max(to, range.from) })}
+        minimumTrackTintColor="#007BFF"
+        maximumTrackTintColor="#ccc"
+        thumbTintColor="#009688"
+      />
+      <View style={styles.row}>
+        {STEP_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === steps && styles.chipActive]}
+            onPress={() => setSteps(option)}
+          >
+            <Text style={[styles.chipText, option === steps && styles.chipTextActive]}>{s.sweep.steps(option)}</Text>
+          </TouchableOpacity>
+        ))}
+        {parameter === 'voltage' &&
+          RATE_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, option === rate && styles.chipActive]}
+              onPress={() => setRate(option)}
+            >
+              <Text style={[styles.chipText, option === rate && styles.chipTextActive]}>{n(option, 2, true)} V/s</Text>
+            </TouchableOpacity>
+          ))}
+      </View>
+      {progress ? (
+        <>
+          <Text style={styles.label}>{s.sweep.progress(progress.done, progress.total)}</Text>
+          <TouchableOpacity style={styles.startButton} onPress={stop}>
+            <Text style={styles.startText}>{s.sweep.stop}</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <TouchableOpacity
+          style={[styles.startButton, range.to <= range.from && styles.disabled]}
+          onPress={start}
+          disabled={range.to <= range.from}
+        >
+          <Text style={styles.startText}>{s.sweep.start}</Text>
+        </TouchableOpacity>
+      )}
+      {result && shown && (
+        <>
+          <LineChart
+            data={{ labels, datasets, legend }}
+            width={width}
+            height={220}
+            chartConfig={{
+              backgroundColor: '#E3F2FD',
+              backgroundGradientFrom: '#E3F2FD',
+              backgroundGradientTo: '#E3F2FD',
+              decimalPlaces: 2,
+              color: (opacity = 1) => `rgba(0, 123, 255, ${opacity})`,
+              labelColor: (opacity = 1) => `rgba(51, 51, 51, ${opacity})`,
+              style: { borderRadius: 16 },
+              fillShadowGradientOpacity: 0,
+            }}
+            formatYLabel={label => n(Number(label), 2)}
+            withDots={false}
+            fromZero={true}
+            style={styles.chart}
+          />
+          <Text style={styles.caption}>
+            {s.sweep.caption(
+              s.sweepParameters[shown.id],
+              shown.unit,
+              voltageSweep ? s.sweep.currentAxis : s.sweep.rateAxis,
+            )}
+          </Text>
+          {voltageSweep &&
+            (polarisation ? (
+              <>
+                <Text style={styles.result}>
+                  {s.sweep.decompositionVoltage(n(polarisation.decompositionVoltage, 2))}
+                </Text>
+                <Text style={styles.result}>
+                  {s.sweep.ohmicRegion(n(polarisation.ohmicFrom, 1), n(polarisation.resistance, 2))}
+                </Text>
+                <Text style={styles.result}>{s.sweep.reversibleVoltage(n(reversibleVoltage, 2))}</Text>
+                <Text style={styles.hint}>{s.sweep.overpotentialNote}</Text>
+              </>
+            ) : (
+              <Text style={styles.hint}>{s.sweep.noCurrent}</Text>
+            ))}
+          {voltageSweep && <Text style={styles.hint}>{s.sweep.dwell(sweepDwell(result.spec))}</Text>}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    marginVertical: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 5,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 5,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  chipActive: {
+    backgroundColor: '#007BFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#007BFF',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  startButton: {
+    alignSelf: 'center',
+    backgroundColor: '#007BFF',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    marginVertical: 5,
+  },
+  startText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+    alignSelf: 'center',
+  },
+  caption: {
+    fontSize: 12,
+    color: '#333',
+    textAlign: 'center',
+  },
+  result: {
+    fontSize: 13,
+    color: '#333',
+    textAlign: 'center',
+    marginVertical: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+    textAlign: 'center',
+  },
+});
+
+export default SweepPanel;
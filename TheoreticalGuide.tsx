@@ -1,36 +1,250 @@
-import React from 'react';
-import { View, Text, Button, StyleSheet } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, Button, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import { ION_LABELS, PRODUCTS } from './electrolytes';
+import {
+  ELECTROCHEMICAL_SERIES,
+  FormulaPart,
+  GUIDE_CHAPTERS,
+  GUIDE_CHAPTER_IDS,
+  GuideBlock,
+  GuideChapterId,
+  GuideContext,
+  findGuideEntry,
+  searchGuide,
+  sectionOf,
+} from './guide';
+import { NumberFormat, byId, useLocale } from './i18n';
+import { Strings } from './ro';
+import { SALT_BRIDGE_IONS } from './simulation';
 
 interface TheoreticalGuideProps {
   onClose: () => void;
+  section?: string; // chapter or section id; the contents when missing
+  onSelectSection?: (id: string) => void;
+  context?: GuideContext; // the experiment the guide was opened from
 }
 
-const TheoreticalGuide: React.FC<TheoreticalGuideProps> = ({ onClose }) => {
+// Potentials are written with their sign, as in tables: +0,34 V, −0,76 V.
+const signed = (value: number, n: NumberFormat) =>
+  `${value > 0 ? '+' : value < 0 ? '−' : ''}${n(Math.abs(value), 2)}`;
+
+// Numbers of the experiment that belong to one chapter.
+const liveLines = (chapter: GuideChapterId, context: GuideContext, s: Strings, n: NumberFormat): string[] => {
+  const sides = context.side === 'anode' ? (['anode', 'cathode'] as const) : (['cathode', 'anode'] as const);
+  switch (chapter) {
+    case 'semireactii':
+      return sides.map(side => {
+        const reactions = context.reactions[side];
+        const equations = reactions
+          .map(reaction =>
+            reactions.length > 1 ? `${reaction.equation} (${n(reaction.share * 100)}%)` : reaction.equation,
+          )
+          .join('; ');
+        return s.guide.live[side](byId(s.materials, context.materials[side]), equations);
+      });
+    case 'legile-lui-faraday': {
+      const products = context.products.map(
+        product =>
+          s.guide.live.product(PRODUCTS[product.id].label, n(product.moles * 1000, 2), n(product.mass * 1000, 1)) +
+          (product.volume > 0 ? s.guide.live.gasVolume(n(product.volume, 2)) : ''),
+      );
+      return [
+        s.guide.live.charge(n(context.charge, 1), n(context.current, 2)),
+        ...(products.length ? products : [s.guide.live.noProducts]),
+      ];
+    }
+    case 'seria-electrochimica':
+      return [
+        ...sides.flatMap(side => {
+          const entry = ELECTROCHEMICAL_SERIES.find(candidate => candidate.material === context.materials[side]);
+          return entry ? [s.guide.live.standardPotential(entry.couple, signed(entry.potential, n))] : [];
+        }),
+        s.guide.live.potentials(n(context.potentials.cathode, 3), n(context.potentials.anode, 3)),
+        context.cell === 'galvanic'
+          ? s.experiment.emf(n(context.cellVoltage, 3))
+          : s.experiment.decompositionVoltage(n(context.cellVoltage, 2)),
+      ];
+    case 'puntea-de-sare':
+      return [
+        `${s.experiment.saltBridge}: ${s.experiment.saltBridgeStates[context.saltBridge]}`,
+        s.experiment.bridgeTransport(
+          ION_LABELS[SALT_BRIDGE_IONS.cation],
+          n(context.transport.cation, 2),
+          ION_LABELS[SALT_BRIDGE_IONS.anion],
+          n(context.transport.anion, 2),
+          n(context.migrated.cation * 1000, 1),
+          n(context.migrated.anion * 1000, 1),
+        ),
+      ];
+    case 'galvanizare':
+      return [
+        context.plating
+          ? s.guide.live.plating(
+              byId(s.platedObjects, context.plating.object),
+              n(context.plating.density, 2),
+              n(context.plating.thickness, 2),
+              n(context.plating.efficiency, 1),
+            )
+          : s.guide.live.noPlating,
+      ];
+    case 'electroliza-industriala':
+      return [
+        s.guide.live.charge(n(context.charge, 1), n(context.current, 2)),
+        s.guide.live.energy(n(context.voltage, 2), n(context.charge, 1), n((context.voltage * context.charge) / 1000, 2)),
+      ];
+  }
+};
+
+// A formula set in a serif face, with fractions stacked over a bar.
+const Formula: React.FC<{ parts: FormulaPart[] }> = ({ parts }) => (
+  <View style={styles.formula}>
+    {parts.map((part, index) =>
+      typeof part === 'string' ? (
+        <Text key={index} style={styles.formulaText}>
+          {part}
+        </Text>
+      ) : (
+        <View key={index} style={styles.fraction}>
+          <Text style={styles.formulaText}>{part.numerator}</Text>
+          <View style={styles.fractionBar} />
+          <Text style={styles.formulaText}>{part.denominator}</Text>
+        </View>
+      ),
+    )}
+  </View>
+);
+
+// The metals of the lab by standard potential, the experiment's own electrodes marked.
+const Series: React.FC<{ context?: GuideContext }> = ({ context }) => {
+  const { n } = useLocale();
+  const used = context ? [context.materials.cathode, context.materials.anode] : [];
+  return (
+    <View style={styles.series}>
+      {ELECTROCHEMICAL_SERIES.map(entry => (
+        <View
+          key={entry.couple}
+          style={[styles.seriesEntry, entry.material && used.includes(entry.material) && styles.seriesEntryUsed]}
+        >
+          <Text style={styles.formulaText}>{entry.couple}</Text>
+          <Text style={styles.seriesPotential}>{signed(entry.potential, n)} V</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const Block: React.FC<{ block: GuideBlock; context?: GuideContext }> = ({ block, context }) => {
+  switch (block.kind) {
+    case 'text':
+      return <Text style={styles.text}>{block.text}</Text>;
+    case 'formula':
+      return <Formula parts={block.parts} />;
+    case 'series':
+      return <Series context={context} />;
+  }
+};
+
+const TheoreticalGuide: React.FC<TheoreticalGuideProps> = ({ onClose, section, onSelectSection, context }) => {
+  const { s, n } = useLocale();
+  const [query, setQuery] = useState('');
+  const entry = section ? findGuideEntry(section) : undefined;
+  const select = (id: string) => {
+    setQuery('');
+    onSelectSection?.(id);
+  };
+  const results = searchGuide(s.guide.chapters, query);
+
+  const renderContents = () =>
+    GUIDE_CHAPTER_IDS.map(chapter => (
+      <View key={chapter} style={styles.contentsChapter}>
+        <TouchableOpacity onPress={() => select(chapter)}>
+          <Text style={styles.sectionHeader}>{s.guide.chapters[chapter].title}</Text>
+        </TouchableOpacity>
+        {GUIDE_CHAPTERS[chapter].map(id => (
+          <TouchableOpacity key={id} onPress={() => select(id)}>
+            <Text style={styles.link}>{sectionOf(s.guide.chapters, chapter, id).title}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    ));
+
+  const renderChapter = (chapter: GuideChapterId, only?: string) => (
+    <>
+      <Text style={styles.chapterHeader}>{s.guide.chapters[chapter].title}</Text>
+      {context && (
+        <View style={styles.live}>
+          <Text style={styles.liveTitle}>{s.guide.live.title(n(context.time))}</Text>
+          {liveLines(chapter, context, s, n).map(line => (
+            <Text key={line} style={styles.liveText}>
+              {line}
+            </Text>
+          ))}
+        </View>
+      )}
+      {GUIDE_CHAPTERS[chapter]
+        .filter(id => !only || id === only)
+        .map(id => {
+          const { title, blocks } = sectionOf(s.guide.chapters, chapter, id);
+          return (
+            <React.Fragment key={id}>
+              <Text style={styles.sectionHeader}>{title}</Text>
+              {blocks.map((block, index) => (
+                <Block key={index} block={block} context={context} />
+              ))}
+            </React.Fragment>
+          );
+        })}
+      {only && (
+        <TouchableOpacity onPress={() => select(chapter)}>
+          <Text style={styles.link}>{s.guide.wholeChapter} →</Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
   return (
     <View style={styles.modal}>
       <View style={styles.content}>
-        <Button title="Închide" onPress={onClose} color="#007BFF" />
-        <Text style={styles.header}>Ghid Teoretic</Text>
-        
-        <Text style={styles.sectionHeader}>Electroliza Apei</Text>
-        <Text style={styles.text}>
-          Electroliza apei implică descompunerea acesteia în hidrogen și oxigen prin aplicarea unui curent electric.
-          Reacția principală este: {"\n"}2H₂O(l) → 2H₂(g) + O₂(g)
-        </Text>
-        
-        <Text style={styles.sectionHeader}>Puntea de Sare</Text>
-        <Text style={styles.text}>
-          Puntea de sare permite migrarea ionilor (Na⁺ și Cl⁻) între cele două pahare, menținând echilibrul electric.
-        </Text>
-        
-        <Text style={styles.sectionHeader}>Calculul Vitezei Reacției Electrolitice</Text>
-        <Text style={styles.text}>
-          Pentru producția de hidrogen la catod:{"\n"}
-          Viteza = I / (2 · F) (mol/s){"\n"}
-          Pentru producția de oxigen la anod:{"\n"}
-          Viteza = I / (4 · F) (mol/s){"\n"}
-          unde I este intensitatea curentului în amperi și F este constanta lui Faraday (~96485 C/mol).
-        </Text>
+        <Button title={s.common.close} onPress={onClose} color="#007BFF" />
+        <Text style={styles.header}>{s.guide.title}</Text>
+        <TextInput style={styles.search} value={query} onChangeText={setQuery} placeholder={s.guide.search} />
+        {onSelectSection && (
+          <View style={styles.tabs}>
+            {[{ id: '', title: s.guide.contents }, ...GUIDE_CHAPTER_IDS.map(id => ({ id, ...s.guide.chapters[id] }))].map(
+              chapter => {
+                const active = (entry?.chapter ?? '') === chapter.id && !query;
+                return (
+                  <TouchableOpacity
+                    key={chapter.id}
+                    style={[styles.tab, active && styles.tabActive]}
+                    onPress={() => select(chapter.id)}
+                  >
+                    <Text style={[styles.tabText, active && styles.tabTextActive]}>{chapter.title}</Text>
+                  </TouchableOpacity>
+                );
+              },
+            )}
+          </View>
+        )}
+        <ScrollView style={styles.body}>
+          {query.trim() ? (
+            results.length ? (
+              results.map(result => (
+                <TouchableOpacity key={result.section} onPress={() => select(result.section)}>
+                  <Text style={styles.link}>
+                    {s.guide.chapters[result.chapter].title} › {sectionOf(s.guide.chapters, result.chapter, result.section).title}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            ) : (
+              <Text style={styles.text}>{s.guide.noResults(query.trim())}</Text>
+            )
+          ) : entry ? (
+            renderChapter(entry.chapter, entry.section)
+          ) : (
+            renderContents()
+          )}
+        </ScrollView>
       </View>
     </View>
   );
@@ -50,6 +264,7 @@ const styles = StyleSheet.create({
   },
   content: {
     width: '90%',
+    maxHeight: '90%',
     backgroundColor: '#fff',
     padding: 20,
     borderRadius: 10,
@@ -61,18 +276,122 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textAlign: 'center',
   },
+  search: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    padding: 8,
+    marginBottom: 8,
+  },
+  tabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  tab: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  tabActive: {
+    backgroundColor: '#007BFF',
+  },
+  tabText: {
+    fontSize: 12,
+    color: '#007BFF',
+  },
+  tabTextActive: {
+    color: '#fff',
+  },
+  body: {
+    marginTop: 10,
+  },
+  contentsChapter: {
+    marginBottom: 6,
+  },
+  chapterHeader: {
+    fontSize: 20,
+    color: '#007BFF',
+    fontWeight: 'bold',
+  },
   sectionHeader: {
     fontSize: 18,
     color: '#007BFF',
     fontWeight: 'bold',
     marginTop: 10,
   },
+  link: {
+    fontSize: 14,
+    color: '#007BFF',
+    marginTop: 4,
+    textDecorationLine: 'underline',
+  },
   text: {
     fontSize: 14,
     color: '#333',
     marginTop: 5,
     lineHeight: 20,
   },
+  live: {
+    backgroundColor: '#FFFDE7',
+    borderLeftWidth: 4,
+    borderLeftColor: '#009688',
+    padding: 8,
+    marginTop: 8,
+  },
+  liveTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#009688',
+  },
+  liveText: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  formula: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginVertical: 6,
+  },
+  formulaText: {
+    fontFamily: 'serif',
+    fontSize: 16,
+    color: '#222',
+  },
+  fraction: {
+    alignItems: 'center',
+    marginHorizontal: 3,
+  },
+  fractionBar: {
+    alignSelf: 'stretch',
+    height: 1,
+    backgroundColor: '#222',
+    marginVertical: 1,
+  },
+  series: {
+    alignSelf: 'center',
+    marginVertical: 6,
+  },
+  seriesEntry: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: 220,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+  },
+  seriesEntryUsed: {
+    backgroundColor: '#E0F2F1',
+  },
+  seriesPotential: {
+    fontSize: 14,
+    color: '#333',
+  },
 });
 
 export default TheoreticalGuide;
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import {
+  CalculationInput,
+  CalculationStep,
+  calculationInput,
+  currentDrifted,
+  isCorrectAnswer,
+  parseAnswer,
+  workedCalculations,
+} from './calculations';
+import { byId, useLocale } from './i18n';
+import { CellElectrics, SimulationParams, SimulationState } from './simulation';
+
+interface WorkedCalculationsProps {
+  state: SimulationState;
+  params: SimulationParams;
+  electrics: CellElectrics;
+}
+
+// Durations t to work with besides the run's own length.
+const DURATIONS = [60, 600, 3600];
+
+type Mode = 'working' | 'practice';
+
+// "Show the working" for the products of the current setup, live with the
+// sliders, or a frozen copy of it where the student fills in each step.
+const WorkedCalculations: React.FC<WorkedCalculationsProps> = ({ state, params, electrics }) => {
+  const { s, n } = useLocale();
+  const [mode, setMode] = useState<Mode>('working');
+  const [duration, setDuration] = useState<number | 'run'>('run');
+  const [problem, setProblem] = useState<CalculationInput | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState<Record<string, boolean | undefined>>({});
+  const [shown, setShown] = useState<Record<string, 'hint' | 'answer'>>({});
+
+  const liveInput = (over: number | 'run') =>
+    calculationInput(state, params, electrics, over === 'run' ? undefined : over);
+  const live = liveInput(duration);
+  const input = mode === 'practice' && problem ? problem : live;
+  const steps = workedCalculations(input);
+  const drifted = duration === 'run' && currentDrifted(input, state.charge);
+
+  // A practice problem is the setup as it is now, so it holds still while the student works.
+  const startProblem = (next = live) => {
+    setProblem(next);
+    setAnswers({});
+    setChecked({});
+    setShown({});
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    if (next === 'practice') startProblem();
+  };
+
+  const chooseDuration = (next: number | 'run') => {
+    setDuration(next);
+    if (mode === 'practice') startProblem(liveInput(next));
+  };
+
+  const check = (step: CalculationStep) => {
+    const answer = parseAnswer(answers[step.id] ?? '');
+    setChecked({ ...checked, [step.id]: answer !== undefined && isCorrectAnswer(answer, step) });
+  };
+
+  const title = (step: CalculationStep, index: number) =>
+    `${index + 1}. ${s.calculations.kinds[step.kind]}${step.product ? ` – ${byId(s.products, step.product)}` : ''}`;
+  const result = (step: CalculationStep) => `${n(step.value, step.digits)} ${step.unit}`;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>{s.calculations.title}</Text>
+      <View style={styles.row}>
+        {(['working', 'practice'] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === mode && styles.chipActive]}
+            onPress={() => switchMode(option)}
+          >
+            <Text style={[styles.chipText, option === mode && styles.chipTextActive]}>
+              {s.calculations.modes[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.step}>{s.calculations.duration}</Text>
+      <View style={styles.row}>
+        {(['run', ...DURATIONS] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === duration && styles.chipActive]}
+            onPress={() => chooseDuration(option)}
+          >
+            <Text style={[styles.chipText, option === duration && styles.chipTextActive]}>
+              {option === 'run' ? s.calculations.runTime : s.calculations.seconds(option)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {mode === 'practice' && (
+          <TouchableOpacity style={styles.chip} onPress={() => startProblem()}>
+            <Text style={styles.chipText}>{s.calculations.newProblem}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {input.current <= 0 || input.time <= 0 ? (
+        <Text style={styles.hint}>{s.calculations.noCurrent}</Text>
+      ) : mode === 'working' ? (
+        <>
+          {steps.map((step, index) => (
+            <View key={step.id}>
+              <Text style={styles.step}>{title(step, index)}</Text>
+              <Text style={styles.formula}>
+                {step.symbol} = {step.formula} = {step.substitution(n)} = {result(step)}
+              </Text>
+            </View>
+          ))}
+          {drifted && <Text style={styles.hint}>{s.calculations.currentChanged(n(state.charge, 1))}</Text>}
+        </>
+      ) : (
+        <>
+          <Text style={styles.result}>
+            {s.calculations.data(
+              n(input.current, 2),
+              n(input.time),
+              n(input.temperature, 1),
+              n(input.pressure, 3),
+              n(input.area),
+            )}
+          </Text>
+          {steps.map((step, index) => (
+            <View key={step.id}>
+              <Text style={styles.step}>{title(step, index)}</Text>
+              <View style={styles.answerRow}>
+                <Text style={styles.formula}>
+                  {step.symbol} = {step.formula} =
+                </Text>
+                <TextInput
+                  style={styles.answerInput}
+                  value={answers[step.id] ?? ''}
+                  onChangeText={text => {
+                    setAnswers({ ...answers, [step.id]: text });
+                    setChecked({ ...checked, [step.id]: undefined });
+                  }}
+                  onSubmitEditing={() => check(step)}
+                  placeholder={s.calculations.answer}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.formula}>{step.unit}</Text>
+                <TouchableOpacity style={styles.chip} onPress={() => check(step)}>
+                  <Text style={styles.chipText}>{s.calculations.check}</Text>
+                </TouchableOpacity>
+                {checked[step.id] !== undefined && (
+                  <Text style={checked[step.id] ? styles.correct : styles.wrong}>
+                    {checked[step.id] ? s.calculations.correct : s.calculations.wrong}
+                  </Text>
+                )}
+              </View>
+              {!checked[step.id] && (
+                <View style={styles.row}>
+                  <TouchableOpacity style={styles.chip} onPress={() => setShown({ ...shown, [step.id]: 'hint' })}>
+                    <Text style={styles.chipText}>{s.calculations.hint}</Text>
+                  </TouchableOpacity>
+                  {checked[step.id] !== undefined && (
+                    <TouchableOpacity style={styles.chip} onPress={() => setShown({ ...shown, [step.id]: 'answer' })}>
+                      <Text style={styles.chipText}>{s.calculations.reveal}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+              {(shown[step.id] || checked[step.id]) && (
+                <Text style={styles.hint}>
+                  {step.symbol} = {step.substitution(n)}
+                  {shown[step.id] === 'answer' || checked[step.id] ? ` = ${result(step)}` : ''}
+                </Text>
+              )}
+            </View>
+          ))}
+          <Text style={styles.result}>
+            {s.calculations.score(Object.values(checked).filter(Boolean).length, steps.length)}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#F0F8FF',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#007BFF',
+    textAlign: 'center',
+    marginBottom: 5,
+  },
+  step: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007BFF',
+  },
+  chipActive: {
+    backgroundColor: '#007BFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#007BFF',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  formula: {
+    fontFamily: 'serif',
+    fontSize: 14,
+    color: '#222',
+    marginVertical: 2,
+  },
+  answerRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  answerInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    marginHorizontal: 5,
+    backgroundColor: '#fff',
+  },
+  correct: {
+    fontSize: 13,
+    color: '#2E7D32',
+    marginLeft: 5,
+  },
+  wrong: {
+    fontSize: 13,
+    color: '#C62828',
+    marginLeft: 5,
+  },
+  result: {
+    fontSize: 13,
+    color: '#333',
+    marginVertical: 2,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+    marginVertical: 3,
+  },
+});
+
+export default WorkedCalculations;
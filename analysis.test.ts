@@ -0,0 +1,68 @@
+import {
+  AVOGADRO,
+  ELEMENTARY_CHARGE,
+  faradayFromPoints,
+  faradayPoints,
+  faradaySources,
+  linearRegression,
+  percentError,
+} from './analysis';
+import { DEFAULT_PARAMS, FARADAY, advanceSimulation, createSimulationState } from './simulation';
+
+describe('linear regression', () => {
+  it('fits a straight line exactly, with no uncertainty', () => {
+    const fit = linearRegression([0, 1, 2, 3].map(x => [x, 2 * x + 1]))!;
+    expect(fit.slope).toBeCloseTo(2);
+    expect(fit.intercept).toBeCloseTo(1);
+    expect(fit.slopeError).toBeCloseTo(0);
+    expect(fit.rSquared).toBeCloseTo(1);
+    expect(fit.count).toBe(4);
+  });
+
+  it('gives the slope an uncertainty when the points scatter', () => {
+    const fit = linearRegression([
+      [0, 0.1],
+      [1, 0.9],
+      [2, 2.2],
+      [3, 2.9],
+    ])!;
+    expect(fit.slope).toBeCloseTo(0.97);
+    expect(fit.slopeError).toBeGreaterThan(0);
+    expect(fit.rSquared).toBeLessThan(1);
+  });
+
+  it('needs three points with different x', () => {
+    expect(linearRegression([[0, 0], [1, 1]])).toBeNull();
+    expect(linearRegression([[1, 0], [1, 1], [1, 2]])).toBeNull();
+  });
+});
+
+describe('Faraday constant', () => {
+  it('turns the slope of n against Q into F and N_A', () => {
+    // n = Q/(zF) for copper, z = 2.
+    const points = [100, 200, 300, 400].map((charge): [number, number] => [charge, charge / (2 * FARADAY)]);
+    const result = faradayFromPoints(points, 2)!;
+    expect(result.faraday).toBeCloseTo(FARADAY, 0);
+    expect(result.avogadro * ELEMENTARY_CHARGE).toBeCloseTo(FARADAY, 0);
+    expect(result.avogadro / AVOGADRO).toBeCloseTo(1, 4);
+    expect(result.faradayError).toBeCloseTo(0);
+  });
+
+  it('measures F from the copper deposited in a recorded run', () => {
+    const params = {
+      ...DEFAULT_PARAMS,
+      electrolyte: 'cuso4',
+      cathodeMaterial: 'copper',
+      anodeMaterial: 'copper',
+      mode: 'current' as const,
+      current: 0.5,
+    };
+    const { samples } = advanceSimulation(createSimulationState(params), params, 600);
+    const source = faradaySources(params, ['Cu']).find(entry => entry.method === 'mass')!;
+    expect(source.electrons).toBe(2);
+    const points = faradayPoints(samples, params, source, 10, false);
+    expect(points).toHaveLength(10);
+    const result = faradayFromPoints(points, source.electrons)!;
+    expect(Math.abs(percentError(result.faraday, FARADAY))).toBeLessThan(2);
+  });
+});
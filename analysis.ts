@@ -0,0 +1,132 @@
+// Determination of the Faraday constant from a recorded run: moles of one
+// product against the charge passed, fitted with a straight line whose slope
+// is 1/(zF). Avogadro's number follows from F = N_A·e.
+
+import { PRODUCTS } from './electrolytes';
+import { getElectrodeMaterial, initialElectrodeMass } from './electrodes';
+import { readInstrument } from './instruments';
+import {
+  GAS_CONSTANT,
+  SimulationParams,
+  SimulationSample,
+  dryGasPressure,
+  electrodeCandidates,
+} from './simulation';
+
+export const ELEMENTARY_CHARGE = 1.602176634e-19; // C
+export const AVOGADRO = 6.02214076e23; // 1/mol
+
+// Least-squares straight line y = slope·x + intercept with the standard errors
+// of both coefficients.
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  slopeError: number;
+  interceptError: number;
+  rSquared: number;
+  count: number;
+}
+
+// Needs at least three points: two fix the line, the rest give its uncertainty.
+export const linearRegression = (points: [number, number][]): LinearFit | null => {
+  const count = points.length;
+  if (count < 3) return null;
+  const meanX = points.reduce((total, [x]) => total + x, 0) / count;
+  const meanY = points.reduce((total, [, y]) => total + y, 0) / count;
+  const sxx = points.reduce((total, [x]) => total + (x - meanX) ** 2, 0);
+  const sxy = points.reduce((total, [x, y]) => total + (x - meanX) * (y - meanY), 0);
+  const syy = points.reduce((total, [, y]) => total + (y - meanY) ** 2, 0);
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residuals = points.reduce((total, [x, y]) => total + (y - slope * x - intercept) ** 2, 0);
+  const variance = residuals / (count - 2);
+  return {
+    slope,
+    intercept,
+    slopeError: Math.sqrt(variance / sxx),
+    interceptError: Math.sqrt(variance * (1 / count + (meanX * meanX) / sxx)),
+    rSquared: syy > 0 ? 1 - residuals / syy : 1,
+    count,
+  };
+};
+
+// How the moles of product are found: from the gas volume in the tube or from
+// the mass the cathode gained.
+export type MoleMethod = 'gas' | 'mass';
+
+export interface FaradaySource {
+  productId: string;
+  method: MoleMethod;
+  electrons: number; // z, electrons per formula unit of product
+}
+
+// Products of the run that can be measured: gases by volume, deposits by mass.
+export const faradaySources = (params: SimulationParams, productIds: string[]): FaradaySource[] => {
+  const candidates = electrodeCandidates(params);
+  return productIds.flatMap((productId): FaradaySource[] => {
+    const product = PRODUCTS[productId];
+    const reaction = [...candidates.cathode, ...candidates.anode].find(entry => entry.product === productId);
+    if (!reaction || (!product.gas && !product.deposits)) return [];
+    return [{ productId, method: product.gas ? 'gas' : 'mass', electrons: reaction.electrons }];
+  });
+};
+
+// (Q, n) points from evenly spaced samples of the run. Readings go through the
+// gas tube or the balance, so they carry that instrument's resolution and,
+// optionally, its noise; points past the end of the tube's scale are dropped.
+export const faradayPoints = (
+  samples: SimulationSample[],
+  params: SimulationParams,
+  source: FaradaySource,
+  count: number,
+  noise: boolean,
+): [number, number][] => {
+  const recorded = samples.filter(sample => sample.charge > 0);
+  if (!recorded.length) return [];
+  const stride = Math.max(1, Math.floor(recorded.length / count));
+  const picked = recorded.filter((_, index) => (recorded.length - 1 - index) % stride === 0).slice(-count);
+  const startMass = initialElectrodeMass(getElectrodeMaterial(params.cathodeMaterial));
+  const { molarMass } = PRODUCTS[source.productId];
+  return picked.flatMap((sample): [number, number][] => {
+    const options = { noise, seed: sample.time };
+    if (source.method === 'gas') {
+      const volume = readInstrument('gasTube', sample.products[source.productId]?.volume ?? 0, options);
+      if (volume === null) return [];
+      // Back to moles with the gas law, at the solution's temperature then.
+      const conditions = { ...params, temperature: sample.temperature ?? params.temperature };
+      const moles = (dryGasPressure(conditions) * volume) / 1000 / (GAS_CONSTANT * conditions.temperature);
+      return [[sample.charge, moles]];
+    }
+    const before = readInstrument('balance', startMass, { noise, seed: 0 });
+    const after = readInstrument('balance', sample.electrodes.cathode, options);
+    if (before === null || after === null) return [];
+    return [[sample.charge, (after - before) / molarMass]];
+  });
+};
+
+export interface FaradayResult {
+  fit: LinearFit;
+  faraday: number; // C/mol
+  faradayError: number;
+  avogadro: number; // 1/mol
+  avogadroError: number;
+}
+
+// slope = 1/(zF), so F = 1/(z·slope) with the same relative uncertainty.
+export const faradayFromPoints = (points: [number, number][], electrons: number): FaradayResult | null => {
+  const fit = linearRegression(points);
+  if (!fit || fit.slope <= 0) return null;
+  const faraday = 1 / (electrons * fit.slope);
+  const relativeError = fit.slopeError / fit.slope;
+  return {
+    fit,
+    faraday,
+    faradayError: faraday * relativeError,
+    avogadro: faraday / ELEMENTARY_CHARGE,
+    avogadroError: (faraday * relativeError) / ELEMENTARY_CHARGE,
+  };
+};
+
+export const percentError = (measured: number, accepted: number): number =>
+  ((measured - accepted) / accepted) * 100;
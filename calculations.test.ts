@@ -0,0 +1,83 @@
+import {
+  CalculationStep,
+  calculationInput,
+  currentDrifted,
+  isCorrectAnswer,
+  parseAnswer,
+  workedCalculations,
+} from './calculations';
+import {
+  DEFAULT_PARAMS,
+  FARADAY,
+  SimulationParams,
+  advanceSimulation,
+  cellElectrics,
+  createSimulationState,
+} from './simulation';
+
+const copperCell: SimulationParams = {
+  ...DEFAULT_PARAMS,
+  electrolyte: 'cuso4',
+  cathodeMaterial: 'copper',
+  anodeMaterial: 'copper',
+  mode: 'current',
+  current: 0.5,
+};
+
+const worked = (params: SimulationParams, seconds: number) => {
+  const { state } = advanceSimulation(createSimulationState(params), params, seconds);
+  const input = calculationInput(state, params, cellElectrics(state, params));
+  return { state, input, steps: workedCalculations(input) };
+};
+
+const step = (steps: CalculationStep[], id: string) => steps.find(entry => entry.id === id)!;
+
+describe('worked calculations', () => {
+  it('goes from Q = I·t to the mass of copper deposited', () => {
+    const { steps } = worked(copperCell, 600);
+    expect(step(steps, 'charge').value).toBeCloseTo(300);
+    expect(step(steps, 'moles-Cu').value).toBeCloseTo((300 / (2 * FARADAY)) * 1000);
+    expect(step(steps, 'mass-Cu').value).toBeCloseTo((300 / (2 * FARADAY)) * 63.55 * 1000, 0);
+  });
+
+  it('compares the calculated amount with what the run made', () => {
+    const { steps } = worked(copperCell, 600);
+    expect(step(steps, 'efficiency-Cu').value).toBeCloseTo(100, 0);
+  });
+
+  it('works out gas volumes for water electrolysis', () => {
+    const { steps } = worked({ ...DEFAULT_PARAMS, mode: 'current', current: 0.5 }, 600);
+    const hydrogen = step(steps, 'volume-H2').value;
+    expect(hydrogen).toBeGreaterThan(30);
+    expect(step(steps, 'volume-O2').value).toBeCloseTo(hydrogen / 2);
+  });
+
+  it('adds the coating thickness only when plating an object', () => {
+    expect(worked(copperCell, 60).steps.some(entry => entry.kind === 'thickness')).toBe(false);
+    const plating = worked({ ...copperCell, platedObject: 'coin' }, 60).steps;
+    expect(step(plating, 'thickness-Cu').value).toBeGreaterThan(0);
+  });
+
+  it('notices when the current did not stay put', () => {
+    const { input, state } = worked(copperCell, 60);
+    expect(currentDrifted(input, state.charge)).toBe(false);
+    expect(currentDrifted(input, state.charge * 1.5)).toBe(true);
+  });
+});
+
+describe('answers', () => {
+  it('reads both decimal separators', () => {
+    expect(parseAnswer('8,98')).toBe(8.98);
+    expect(parseAnswer(' 8.98 ')).toBe(8.98);
+    expect(parseAnswer('')).toBeUndefined();
+    expect(parseAnswer('abc')).toBeUndefined();
+  });
+
+  it('accepts an answer within the tolerance', () => {
+    const { steps } = worked(copperCell, 600);
+    const charge = step(steps, 'charge');
+    expect(isCorrectAnswer(300, charge)).toBe(true);
+    expect(isCorrectAnswer(304, charge)).toBe(true);
+    expect(isCorrectAnswer(310, charge)).toBe(false);
+  });
+});
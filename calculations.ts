@@ -0,0 +1,191 @@
+// Worked calculations for the current setup: the amount of each main product
+// derived step by step from the current and the time, Q = I·t, n = Q/(zF), then
+// V = nRT/P for gases or m = n·M otherwise, the coating thickness when plating
+// and the current efficiency against what the run actually produced.
+
+import { ElectrodeSide } from './electrodes';
+import { HalfReaction, PRODUCTS } from './electrolytes';
+import { NumberFormat } from './i18n';
+import {
+  CellElectrics,
+  FARADAY,
+  GAS_CONSTANT,
+  ProductState,
+  SimulationParams,
+  SimulationState,
+  cellConditions,
+  dryGasPressure,
+  electrodeReactions,
+} from './simulation';
+
+export type CalculationKind = 'charge' | 'moles' | 'volume' | 'mass' | 'thickness' | 'efficiency';
+
+export interface CalculationStep {
+  id: string; // unique within one set, e.g. 'moles-H2'
+  kind: CalculationKind;
+  product?: string; // PRODUCTS id
+  symbol: string; // left-hand side: 'n(H₂)'
+  formula: string; // right-hand side in symbols: 'Q / (z · F)'
+  // Right-hand side with the numbers put in, formatted for the language.
+  substitution: (n: NumberFormat) => string;
+  value: number;
+  unit: string;
+  digits: number; // decimals the answer is given to
+}
+
+export interface CalculationInput {
+  current: number; // A
+  time: number; // s
+  temperature: number; // K of the collected gas
+  pressure: number; // atm, of the dry gas
+  area: number; // cm² of the cathode
+  reactions: Record<ElectrodeSide, HalfReaction>; // main reaction at each electrode
+  plating: boolean; // the cathode is an object being plated
+  measured?: Record<string, ProductState>; // what the run produced in that time
+}
+
+// The setup as it is, worked out over the given time or, by default, over the
+// run itself, which is the only length its products can be compared with.
+export const calculationInput = (
+  state: SimulationState,
+  params: SimulationParams,
+  electrics: CellElectrics,
+  time?: number,
+): CalculationInput => {
+  const conditions = cellConditions(state, params);
+  return {
+    current: electrics.current,
+    time: time ?? state.time,
+    temperature: conditions.temperature,
+    pressure: dryGasPressure(conditions),
+    area: params.electrodeArea,
+    reactions: electrodeReactions(params),
+    plating: !!params.platedObject,
+    measured: time === undefined ? state.products : undefined,
+  };
+};
+
+// Charge off by more than this from I·t means the current did not stay put.
+const CHARGE_DRIFT = 0.02;
+
+export const currentDrifted = (input: CalculationInput, charge: number): boolean =>
+  charge > 0 && Math.abs(input.current * input.time - charge) > CHARGE_DRIFT * charge;
+
+// Answers within this fraction of the exact value count as right, so that
+// rounding an earlier step does not fail the next one.
+export const ANSWER_TOLERANCE = 0.02;
+
+// Formula of a product without its state, as it appears in a symbol: H₂, Cu.
+const productSymbol = (id: string) => PRODUCTS[id].label.replace(/\(.*\)$/, '');
+
+export const workedCalculations = (input: CalculationInput): CalculationStep[] => {
+  const { current, time, temperature, pressure, area } = input;
+  const charge = current * time;
+  const steps: CalculationStep[] = [
+    {
+      id: 'charge',
+      kind: 'charge',
+      symbol: 'Q',
+      formula: 'I · t',
+      substitution: n => `${n(current, 2)} A · ${n(time)} s`,
+      value: charge,
+      unit: 'C',
+      digits: 1,
+    },
+  ];
+
+  (['cathode', 'anode'] as const).forEach(side => {
+    const reaction = input.reactions[side];
+    const product = PRODUCTS[reaction.product];
+    const symbol = productSymbol(product.id);
+    const millimoles = (charge / (reaction.electrons * FARADAY)) * 1000;
+    steps.push({
+      id: `moles-${product.id}`,
+      kind: 'moles',
+      product: product.id,
+      symbol: `n(${symbol})`,
+      formula: 'Q / (z · F)',
+      substitution: n => `${n(charge, 1)} C / (${reaction.electrons} · ${FARADAY} C/mol)`,
+      value: millimoles,
+      unit: 'mmol',
+      digits: 3,
+    });
+
+    // What the run measured, in the same unit as the calculated amount.
+    let calculated: number;
+    let measured: number | undefined;
+    if (product.gas) {
+      calculated = (millimoles * GAS_CONSTANT * temperature) / pressure;
+      measured = input.measured?.[product.id]?.volume;
+      steps.push({
+        id: `volume-${product.id}`,
+        kind: 'volume',
+        product: product.id,
+        symbol: `V(${symbol})`,
+        formula: 'n · R · T / P',
+        substitution: n =>
+          `${n(millimoles, 3)} mmol · ${n(GAS_CONSTANT, 4)} L·atm/(mol·K) · ${n(temperature, 1)} K / ${n(pressure, 3)} atm`,
+        value: calculated,
+        unit: 'mL',
+        digits: 2,
+      });
+    } else {
+      calculated = millimoles * product.molarMass;
+      const mass = input.measured?.[product.id]?.mass;
+      measured = mass === undefined ? undefined : mass * 1000;
+      steps.push({
+        id: `mass-${product.id}`,
+        kind: 'mass',
+        product: product.id,
+        symbol: `m(${symbol})`,
+        formula: 'n · M',
+        substitution: n => `${n(millimoles, 3)} mmol · ${n(product.molarMass, 2)} g/mol`,
+        value: calculated,
+        unit: 'mg',
+        digits: 1,
+      });
+      if (side === 'cathode' && input.plating && product.deposits && product.density) {
+        const density = product.density;
+        steps.push({
+          id: `thickness-${product.id}`,
+          kind: 'thickness',
+          product: product.id,
+          symbol: 'd',
+          formula: 'm / (ρ · A)',
+          substitution: n => `${n(calculated / 1000, 4)} g / (${n(density, 2)} g/cm³ · ${n(area)} cm²)`,
+          // g/cm² → µm
+          value: (calculated / 1000 / (density * area)) * 1e4,
+          unit: 'µm',
+          digits: 2,
+        });
+      }
+    }
+
+    if (measured !== undefined && calculated > 0) {
+      const actual = measured;
+      const unit = product.gas ? 'mL' : 'mg';
+      steps.push({
+        id: `efficiency-${product.id}`,
+        kind: 'efficiency',
+        product: product.id,
+        symbol: `η(${symbol})`,
+        // The measured amount over the calculated one.
+        formula: product.gas ? 'V(exp) / V · 100' : 'm(exp) / m · 100',
+        substitution: n => `${n(actual, 2)} ${unit} / ${n(calculated, 2)} ${unit} · 100`,
+        value: (actual / calculated) * 100,
+        unit: '%',
+        digits: 1,
+      });
+    }
+  });
+  return steps;
+};
+
+// Reads a typed answer in either decimal notation: 8,98 or 8.98.
+export const parseAnswer = (text: string): number | undefined => {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() !== '' && Number.isFinite(value) ? value : undefined;
+};
+
+export const isCorrectAnswer = (answer: number, step: CalculationStep): boolean =>
+  Math.abs(answer - step.value) <= Math.max(ANSWER_TOLERANCE * Math.abs(step.value), 0.5 * 10 ** -step.digits);
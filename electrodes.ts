@@ -0,0 +1,121 @@
+// Electrode materials. Inert electrodes only carry the current; active ones
+// dissolve when used as the anode and replace the electrolyte's own oxidation.
+
+import { HalfReaction } from './electrolytes';
+
+export interface ElectrodeMaterial {
+  id: string;
+  symbol: string;
+  color: string;
+  molarMass: number; // g/mol
+  density: number; // g/cm³
+  // Oxidation of the electrode itself when it is the anode; inert if missing.
+  dissolution?: HalfReaction;
+  // Exchange current density (A/cm²) for gas evolution on this surface, keyed by
+  // product. Overrides the reaction's default.
+  exchangeCurrents?: Record<string, number>;
+}
+
+export type ElectrodeSide = 'cathode' | 'anode';
+
+// Every electrode is the same rod, so the starting mass follows from density.
+export const ELECTRODE_VOLUME = 2.5; // cm³
+
+export const ELECTRODE_MATERIALS: ElectrodeMaterial[] = [
+  { id: 'graphite', symbol: 'C', color: '#444444', molarMass: 12.011, density: 2.2 },
+  {
+    id: 'platinum',
+    symbol: 'Pt',
+    color: '#B8B8C0',
+    molarMass: 195.08,
+    density: 21.45,
+    exchangeCurrents: { H2: 1e-3, O2: 1e-8 },
+  },
+  {
+    id: 'copper',
+    symbol: 'Cu',
+    color: '#B87333',
+    molarMass: 63.546,
+    density: 8.96,
+    exchangeCurrents: { H2: 1e-7 },
+    dissolution: {
+      equation: 'Cu(s) → Cu²⁺ + 2e⁻',
+      product: 'Cu2+',
+      electrons: 2,
+      species: { 'Cu2+': 0.5 },
+      potential: 0.34,
+      exchangeCurrent: 1e-3,
+    },
+  },
+  {
+    id: 'iron',
+    symbol: 'Fe',
+    color: '#6E6E6E',
+    molarMass: 55.845,
+    density: 7.87,
+    dissolution: {
+      equation: 'Fe(s) → Fe²⁺ + 2e⁻',
+      product: 'Fe2+',
+      electrons: 2,
+      species: { 'Fe2+': 0.5 },
+      potential: -0.44,
+      exchangeCurrent: 1e-3,
+    },
+  },
+  {
+    id: 'zinc',
+    symbol: 'Zn',
+    color: '#A8B4BC',
+    molarMass: 65.38,
+    density: 7.14,
+    exchangeCurrents: { H2: 1e-11 },
+    dissolution: {
+      equation: 'Zn(s) → Zn²⁺ + 2e⁻',
+      product: 'Zn2+',
+      electrons: 2,
+      species: { 'Zn2+': 0.5 },
+      potential: -0.76,
+      exchangeCurrent: 1e-3,
+    },
+  },
+  {
+    id: 'nickel',
+    symbol: 'Ni',
+    color: '#B5B5A8',
+    molarMass: 58.693,
+    density: 8.908,
+    exchangeCurrents: { H2: 1e-5 },
+    dissolution: {
+      equation: 'Ni(s) → Ni²⁺ + 2e⁻',
+      product: 'Ni2+',
+      electrons: 2,
+      species: { 'Ni2+': 0.5 },
+      potential: -0.25,
+      exchangeCurrent: 1e-4,
+    },
+  },
+  {
+    id: 'silver',
+    symbol: 'Ag',
+    color: '#D9D9D9',
+    molarMass: 107.868,
+    density: 10.49,
+    exchangeCurrents: { H2: 1e-7 },
+    dissolution: {
+      equation: 'Ag(s) → Ag⁺ + e⁻',
+      product: 'Ag+',
+      electrons: 1,
+      species: { 'Ag+': 1 },
+      potential: 0.8,
+      exchangeCurrent: 1e-3,
+    },
+  },
+];
+
+export const DEFAULT_ELECTRODE = 'graphite';
+
+export const getElectrodeMaterial = (id: string): ElectrodeMaterial =>
+  ELECTRODE_MATERIALS.find(material => material.id === id) ?? ELECTRODE_MATERIALS[0];
+
+export const initialElectrodeMass = (material: ElectrodeMaterial): number =>
+  material.density * ELECTRODE_VOLUME;
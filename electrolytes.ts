@@ -0,0 +1,295 @@
+// Catalogue of electrolyte solutions and the half-reactions they support.
+// Species are keyed by plain formulas ("H+", "Cu2+", "SO42-") so the simulation
+// can track how much of each ion is left in the beakers. Names shown to the
+// student are in the text catalogues (ro.ts, en.ts), keyed by the same ids.
+
+export interface Product {
+  id: string;
+  label: string; // shown on the beaker, e.g. "H₂(g)"
+  gas: boolean;
+  deposits?: boolean; // plates out on the cathode
+  molarMass: number; // g/mol
+  density?: number; // g/cm³, of the deposited metal
+  color: string; // bubble, deposit or solution tint
+}
+
+export interface HalfReaction {
+  equation: string;
+  product: string; // Product id
+  electrons: number; // electrons transferred per molecule of product
+  // Change in moles of each dissolved species per mole of electrons.
+  species: Record<string, number>;
+  potential: number; // standard reduction potential of the couple, V vs SHE
+  exchangeCurrent: number; // A/cm², sets how much overpotential the reaction needs
+}
+
+export interface Electrolyte {
+  id: string;
+  solutionColor: string;
+  // Ion that gives the solution its colour, which fades as it is used up.
+  colorIon?: string;
+  molten?: boolean;
+  // Initial concentrations in mol/L (for molten salts, of the melt).
+  composition: Record<string, number>;
+  cathode: HalfReaction;
+  anode: HalfReaction;
+}
+
+export const PRODUCTS: Record<string, Product> = {
+  H2: { id: 'H2', label: 'H₂(g)', gas: true, molarMass: 2.016, color: 'rgba(173, 216, 230, 0.8)' },
+  O2: { id: 'O2', label: 'O₂(g)', gas: true, molarMass: 31.998, color: 'rgba(255, 255, 204, 0.8)' },
+  Cl2: { id: 'Cl2', label: 'Cl₂(g)', gas: true, molarMass: 70.9, color: 'rgba(204, 255, 153, 0.8)' },
+  Cu: { id: 'Cu', label: 'Cu(s)', gas: false, deposits: true, molarMass: 63.546, density: 8.96, color: '#B87333' },
+  Zn: { id: 'Zn', label: 'Zn(s)', gas: false, deposits: true, molarMass: 65.38, density: 7.14, color: '#A8B4BC' },
+  Fe: { id: 'Fe', label: 'Fe(s)', gas: false, deposits: true, molarMass: 55.845, density: 7.87, color: '#6E6E6E' },
+  Ni: { id: 'Ni', label: 'Ni(s)', gas: false, deposits: true, molarMass: 58.693, density: 8.91, color: '#C8C8BE' },
+  Ag: { id: 'Ag', label: 'Ag(s)', gas: false, deposits: true, molarMass: 107.868, density: 10.49, color: '#D9D9D9' },
+  Na: { id: 'Na', label: 'Na(l)', gas: false, molarMass: 22.99, color: '#C0C0C0' },
+  I2: { id: 'I2', label: 'I₂(aq)', gas: false, molarMass: 253.81, color: '#8B4513' },
+  // Ions released by active anodes.
+  'Cu2+': { id: 'Cu2+', label: 'Cu²⁺(aq)', gas: false, molarMass: 63.546, color: '#4A90D9' },
+  'Fe2+': { id: 'Fe2+', label: 'Fe²⁺(aq)', gas: false, molarMass: 55.845, color: '#A8C97F' },
+  'Ni2+': { id: 'Ni2+', label: 'Ni²⁺(aq)', gas: false, molarMass: 58.693, color: '#7CC68A' },
+  'Zn2+': { id: 'Zn2+', label: 'Zn²⁺(aq)', gas: false, molarMass: 65.38, color: '#F5F5F5' },
+  'Ag+': { id: 'Ag+', label: 'Ag⁺(aq)', gas: false, molarMass: 107.868, color: '#F5F5F5' },
+};
+
+// Shared half-reactions. Water's own reduction and oxidation compete with the
+// electrolyte's at every electrode in aqueous solution.
+export const WATER_REDUCTION: HalfReaction = {
+  equation: '2H₂O + 2e⁻ → H₂(g) + 2OH⁻',
+  product: 'H2',
+  electrons: 2,
+  species: { H2O: -1, 'OH-': 1 },
+  potential: -0.83,
+  exchangeCurrent: 1e-6,
+};
+export const HYDROGEN_ION_REDUCTION: HalfReaction = {
+  equation: '2H⁺ + 2e⁻ → H₂(g)',
+  product: 'H2',
+  electrons: 2,
+  species: { 'H+': -1 },
+  potential: 0,
+  exchangeCurrent: 1e-6,
+};
+export const WATER_OXIDATION: HalfReaction = {
+  equation: '2H₂O → O₂(g) + 4H⁺ + 4e⁻',
+  product: 'O2',
+  electrons: 4,
+  species: { H2O: -0.5, 'H+': 1 },
+  potential: 1.23,
+  exchangeCurrent: 1e-9,
+};
+export const HYDROXIDE_OXIDATION: HalfReaction = {
+  equation: '4OH⁻ → O₂(g) + 2H₂O + 4e⁻',
+  product: 'O2',
+  electrons: 4,
+  species: { 'OH-': -1, H2O: 0.5 },
+  potential: 0.4,
+  exchangeCurrent: 1e-9,
+};
+const CHLORIDE_OXIDATION: HalfReaction = {
+  equation: '2Cl⁻ → Cl₂(g) + 2e⁻',
+  product: 'Cl2',
+  electrons: 2,
+  species: { 'Cl-': -1 },
+  potential: 1.36,
+  exchangeCurrent: 1e-3,
+};
+const COPPER_REDUCTION: HalfReaction = {
+  equation: 'Cu²⁺ + 2e⁻ → Cu(s)',
+  product: 'Cu',
+  electrons: 2,
+  species: { 'Cu2+': -0.5 },
+  potential: 0.34,
+  exchangeCurrent: 1e-3,
+};
+
+const ZINC_REDUCTION: HalfReaction = {
+  equation: 'Zn²⁺ + 2e⁻ → Zn(s)',
+  product: 'Zn',
+  electrons: 2,
+  species: { 'Zn2+': -0.5 },
+  potential: -0.76,
+  exchangeCurrent: 1e-4,
+};
+const IRON_REDUCTION: HalfReaction = {
+  equation: 'Fe²⁺ + 2e⁻ → Fe(s)',
+  product: 'Fe',
+  electrons: 2,
+  species: { 'Fe2+': -0.5 },
+  potential: -0.44,
+  exchangeCurrent: 1e-5,
+};
+const NICKEL_REDUCTION: HalfReaction = {
+  equation: 'Ni²⁺ + 2e⁻ → Ni(s)',
+  product: 'Ni',
+  electrons: 2,
+  species: { 'Ni2+': -0.5 },
+  potential: -0.25,
+  exchangeCurrent: 1e-6,
+};
+const SILVER_REDUCTION: HalfReaction = {
+  equation: 'Ag⁺ + e⁻ → Ag(s)',
+  product: 'Ag',
+  electrons: 1,
+  species: { 'Ag+': -1 },
+  potential: 0.8,
+  exchangeCurrent: 1e-2,
+};
+
+export const ELECTROLYTES: Electrolyte[] = [
+  {
+    id: 'h2so4',
+    solutionColor: '#D6EAFF',
+    composition: { H2O: 55.3, 'H+': 1, 'SO42-': 0.5 },
+    cathode: HYDROGEN_ION_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'naoh',
+    solutionColor: '#E8F4FF',
+    composition: { H2O: 55.3, 'Na+': 1, 'OH-': 1 },
+    cathode: WATER_REDUCTION,
+    anode: HYDROXIDE_OXIDATION,
+  },
+  {
+    id: 'brine',
+    solutionColor: '#F2F7FA',
+    composition: { H2O: 51, 'Na+': 5, 'Cl-': 5 },
+    cathode: WATER_REDUCTION,
+    anode: CHLORIDE_OXIDATION,
+  },
+  {
+    id: 'cuso4',
+    solutionColor: '#7FB2F0',
+    colorIon: 'Cu2+',
+    composition: { H2O: 54, 'Cu2+': 1, 'SO42-': 1 },
+    cathode: COPPER_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'cucl2',
+    solutionColor: '#7FD4C8',
+    colorIon: 'Cu2+',
+    composition: { H2O: 54, 'Cu2+': 1, 'Cl-': 2 },
+    cathode: COPPER_REDUCTION,
+    anode: CHLORIDE_OXIDATION,
+  },
+  {
+    id: 'znso4',
+    solutionColor: '#F4F8FA',
+    composition: { H2O: 54, 'Zn2+': 1, 'SO42-': 1 },
+    cathode: ZINC_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'feso4',
+    solutionColor: '#CFE8C0',
+    colorIon: 'Fe2+',
+    composition: { H2O: 54, 'Fe2+': 1, 'SO42-': 1 },
+    cathode: IRON_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'niso4',
+    solutionColor: '#A8DDB0',
+    colorIon: 'Ni2+',
+    composition: { H2O: 54, 'Ni2+': 1, 'SO42-': 1 },
+    cathode: NICKEL_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'agno3',
+    solutionColor: '#F7F7F7',
+    composition: { H2O: 55, 'Ag+': 1, 'NO3-': 1 },
+    cathode: SILVER_REDUCTION,
+    anode: WATER_OXIDATION,
+  },
+  {
+    id: 'ki',
+    solutionColor: '#FAFAF0',
+    composition: { H2O: 54, 'K+': 1, 'I-': 1 },
+    cathode: WATER_REDUCTION,
+    anode: {
+      equation: '2I⁻ → I₂ + 2e⁻',
+      product: 'I2',
+      electrons: 2,
+      species: { 'I-': -1 },
+      potential: 0.54,
+      exchangeCurrent: 1e-3,
+    },
+  },
+  {
+    id: 'molten-nacl',
+    solutionColor: '#FFE0B2',
+    molten: true,
+    composition: { 'Na+': 26.5, 'Cl-': 26.5 },
+    cathode: {
+      equation: 'Na⁺ + e⁻ → Na(l)',
+      product: 'Na',
+      electrons: 1,
+      species: { 'Na+': -1 },
+      potential: -2.71,
+      exchangeCurrent: 1e-2,
+    },
+    anode: CHLORIDE_OXIDATION,
+  },
+];
+
+// Limiting molar conductivities of the ions, S·cm²/mol.
+export const ION_CONDUCTIVITY: Record<string, number> = {
+  'H+': 350,
+  'OH-': 199,
+  'Na+': 50,
+  'K+': 73.5,
+  'Cl-': 76,
+  'I-': 77,
+  'SO42-': 160,
+  'NO3-': 71.4,
+  'Cu2+': 107,
+  'Fe2+': 108,
+  'Zn2+': 106,
+  'Ni2+': 100,
+  'Ag+': 62,
+};
+
+// Diffusion coefficients in water, cm²/s; they set how fast an ion can reach
+// the electrode before the reaction consuming it becomes transport-limited.
+export const ION_DIFFUSION: Record<string, number> = {
+  'H+': 9.3e-5,
+  'OH-': 5.3e-5,
+  'Na+': 1.33e-5,
+  'K+': 1.96e-5,
+  'Cl-': 2.03e-5,
+  'I-': 2.0e-5,
+  'SO42-': 1.07e-5,
+  'NO3-': 1.9e-5,
+  'Cu2+': 0.71e-5,
+  'Fe2+': 0.72e-5,
+  'Zn2+': 0.7e-5,
+  'Ni2+': 0.66e-5,
+  'Ag+': 1.65e-5,
+};
+
+// How the ions are written on screen.
+export const ION_LABELS: Record<string, string> = {
+  'H+': 'H⁺',
+  'OH-': 'OH⁻',
+  'Na+': 'Na⁺',
+  'K+': 'K⁺',
+  'Cl-': 'Cl⁻',
+  'I-': 'I⁻',
+  'SO42-': 'SO₄²⁻',
+  'NO3-': 'NO₃⁻',
+  'Cu2+': 'Cu²⁺',
+  'Fe2+': 'Fe²⁺',
+  'Zn2+': 'Zn²⁺',
+  'Ni2+': 'Ni²⁺',
+  'Ag+': 'Ag⁺',
+};
+
+export const DEFAULT_ELECTROLYTE = 'h2so4';
+
+export const getElectrolyte = (id: string): Electrolyte =>
+  ELECTROLYTES.find(electrolyte => electrolyte.id === id) ?? ELECTROLYTES[0];
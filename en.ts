@@ -0,0 +1,680 @@
+// English texts, in the shape of the Romanian catalogue.
+
+import { GuideChapters, SERIES, formula, fraction, paragraph } from './guide';
+import { Strings } from './ro';
+
+// Chapters of the theoretical guide.
+const chapters: GuideChapters = {
+  semireactii: {
+    title: 'Half-reactions',
+    sections: {
+      'electroliza-apei': {
+        title: 'Electrolysis of water',
+        blocks: [
+          paragraph(
+            'An electric current splits water into hydrogen and oxygen. Pure water conducts very poorly, so an ' +
+              'electrolyte (H₂SO₄ or NaOH) that takes no part in the reactions is added.',
+          ),
+          formula('Cathode (−):  2H₂O + 2e⁻ → H₂(g) + 2OH⁻'),
+          formula('Anode (+):  2H₂O → O₂(g) + 4H⁺ + 4e⁻'),
+          formula('Overall:  2H₂O(l) → 2H₂(g) + O₂(g)'),
+          paragraph('Two molecules of H₂ form for every molecule of O₂: the volume of hydrogen is twice as large.'),
+        ],
+      },
+      'catod-si-anod': {
+        title: 'Cathode and anode',
+        blocks: [
+          paragraph(
+            'Reduction (a species gains electrons) happens at the cathode, oxidation (a species loses electrons) ' +
+              'at the anode. The electrons gained at the cathode equal those lost at the anode.',
+          ),
+          formula('Reduction:  Mⁿ⁺ + n e⁻ → M'),
+          formula('Oxidation:  M → Mⁿ⁺ + n e⁻'),
+          paragraph(
+            'In electrolysis the supply sets the signs: the cathode is the negative terminal, the anode the ' +
+              'positive one. In a galvanic cell the reactions run by themselves and the cathode is positive.',
+          ),
+        ],
+      },
+      'ordinea-descarcarii': {
+        title: 'What discharges at the electrodes',
+        blocks: [
+          paragraph(
+            'At the cathode the species with the highest reduction potential is reduced: Ag⁺ and Cu²⁺ deposit ' +
+              'before hydrogen, while Na⁺ is never reduced from water; H₂ is given off instead.',
+          ),
+          paragraph(
+            'At the anode an active metal (Cu, Zn, Fe, Ni, Ag) dissolves itself. On an inert electrode (graphite, ' +
+              'platinum) I⁻ is oxidised and, in concentrated solution, Cl⁻; SO₄²⁻ and NO₃⁻ are not oxidised, ' +
+              'so O₂ is given off from the water.',
+          ),
+          paragraph(
+            'Overpotential can change the order: O₂ needs a large extra voltage, which is why brine gives Cl₂ ' +
+              'rather than O₂.',
+          ),
+        ],
+      },
+    },
+  },
+  'legile-lui-faraday': {
+    title: "Faraday's laws",
+    sections: {
+      'prima-lege': {
+        title: 'Mass deposited',
+        blocks: [
+          paragraph('The amount of substance changed at an electrode is proportional to the charge passed.'),
+          formula('Q = I · t'),
+          formula('m = ', fraction('Q · M', 'z · F')),
+          paragraph(
+            'I is the current (A), t the time (s), M the molar mass (g/mol), z the number of electrons ' +
+              'transferred and F = 96485 C/mol the Faraday constant, the charge of one mole of electrons.',
+          ),
+        ],
+      },
+      'viteza-reactiei': {
+        title: 'Rate of reaction',
+        blocks: [
+          paragraph('At constant current each product forms at a steady rate:'),
+          formula('v = ', fraction('I', 'z · F'), '  (mol/s)'),
+          paragraph('For H₂ at the cathode z = 2, for O₂ at the anode z = 4, for Cu at the cathode z = 2.'),
+        ],
+      },
+      'volumul-gazelor': {
+        title: 'Volume of gases',
+        blocks: [
+          paragraph('From the number of moles, the volume of a gas follows from the ideal gas law:'),
+          formula('V = ', fraction('n · R · T', 'P')),
+          paragraph(
+            'R = 0.0821 L·atm/(mol·K). A gas collected over water also holds water vapour, so its own pressure ' +
+              'is below atmospheric pressure:',
+          ),
+          formula('p(gas) = P − p(H₂O)'),
+        ],
+      },
+      randamentul: {
+        title: 'Current efficiency',
+        blocks: [
+          paragraph(
+            'Not all of the charge makes the wanted product: some goes into side reactions, such as H₂ ' +
+              'alongside copper at high current densities.',
+          ),
+          formula('η = ', fraction('m(actual)', 'm(theoretical)'), ' · 100%'),
+        ],
+      },
+    },
+  },
+  'seria-electrochimica': {
+    title: 'Electrochemical series',
+    sections: {
+      'potentiale-standard': {
+        title: 'Standard potentials',
+        blocks: [
+          paragraph(
+            'The standard potential E° shows how easily a metal ion is reduced, measured against the hydrogen ' +
+              'electrode (0 V). Metals with a negative E° are active and oxidise easily; those with a positive ' +
+              'E° are noble.',
+          ),
+          SERIES,
+          paragraph('A metal displaces from solution any metal after it in the series: Zn + Cu²⁺ → Zn²⁺ + Cu.'),
+        ],
+      },
+      'ecuatia-nernst': {
+        title: 'The Nernst equation',
+        blocks: [
+          paragraph('The potential of an electrode depends on the concentration of its ions and on temperature:'),
+          formula('E = E° + ', fraction('R · T', 'z · F'), ' · ln[Mⁿ⁺]'),
+          paragraph('At 25 °C, a solution ten times more dilute lowers the potential by 0.059/z V.'),
+        ],
+      },
+      'tem-pilei': {
+        title: 'Cell voltage and decomposition voltage',
+        blocks: [
+          formula('E(cell) = E(cathode) − E(anode)'),
+          paragraph(
+            'The Daniell cell (Zn | Zn²⁺ || Cu²⁺ | Cu) gives 0.34 − (−0.76) = 1.10 V. A negative EMF means the ' +
+              'electrodes are the wrong way round.',
+          ),
+          paragraph(
+            "Electrolysis is a cell's reaction driven backwards: the supply has to exceed the decomposition " +
+              'voltage, plus the overpotentials of the electrodes and the I·R drop across the solution.',
+          ),
+          formula('U = E(decomposition) + η(cathode) + η(anode) + I · R'),
+        ],
+      },
+    },
+  },
+  'puntea-de-sare': {
+    title: 'Salt bridge',
+    sections: {
+      'rolul-puntii': {
+        title: 'What the bridge does',
+        blocks: [
+          paragraph(
+            'The salt bridge (a tube of NaCl or KCl in a gel) closes the circuit between the two beakers. Ions ' +
+              'pass through it, not electrons, and keep each solution electrically neutral.',
+          ),
+          paragraph('If the bridge dries out or is removed, ions can no longer cross and the current stops at once.'),
+        ],
+      },
+      'numere-de-transport': {
+        title: 'Transport numbers',
+        blocks: [
+          paragraph(
+            "The bridge's cations move towards the cathode, its anions towards the anode. Each carries a share " +
+              'of the current, its transport number t:',
+          ),
+          formula('t₊ + t₋ = 1'),
+          formula('n₊ = ', fraction('t₊ · Q', 'F'), ',   n₋ = ', fraction('t₋ · Q', 'F')),
+        ],
+      },
+    },
+  },
+  galvanizare: {
+    title: 'Electroplating',
+    sections: {
+      'depunerea-metalului': {
+        title: 'Depositing the metal',
+        blocks: [
+          paragraph(
+            "The object to be coated is the cathode, in a bath of the metal's salt (CuSO₄, NiSO₄). The anode is " +
+              'made of the same metal and dissolves, keeping the ion concentration of the bath steady.',
+          ),
+          formula('Cathode:  Cu²⁺ + 2e⁻ → Cu'),
+          formula('Anode:  Cu → Cu²⁺ + 2e⁻'),
+        ],
+      },
+      'densitatea-de-curent': {
+        title: 'Current density',
+        blocks: [
+          formula('j = ', fraction('I', 'A'), '  (A/dm²)'),
+          paragraph(
+            'Every bath has a good range. Below it the coating grows too slowly; above it ions cannot reach the ' +
+              'cathode fast enough: the deposit turns rough, then burnt, and H₂ is given off too.',
+          ),
+        ],
+      },
+      'grosimea-stratului': {
+        title: 'Coating thickness',
+        blocks: [
+          paragraph("From the mass deposited (Faraday's law) and the density of the metal:"),
+          formula('d = ', fraction('m', 'ρ · A')),
+          paragraph('1 g of copper (ρ = 8.96 g/cm³) over 10 cm² gives a coating about 11 µm thick.'),
+        ],
+      },
+    },
+  },
+  'electroliza-industriala': {
+    title: 'Industrial electrolysis',
+    sections: {
+      cloralcalii: {
+        title: 'The chlor-alkali industry',
+        blocks: [
+          paragraph(
+            'Electrolysing brine gives three products: Cl₂ at the anode, H₂ and NaOH at the cathode. An ' +
+              'ion-exchange membrane lets only Na⁺ through and keeps the chlorine away from the hydroxide.',
+          ),
+          formula('2NaCl + 2H₂O → 2NaOH + H₂(g) + Cl₂(g)'),
+        ],
+      },
+      'rafinarea-cuprului': {
+        title: 'Copper refining',
+        blocks: [
+          paragraph(
+            'The anode is impure copper, the cathode a sheet of pure copper, the bath acidified CuSO₄. Copper ' +
+              'moves from the anode to the cathode; Ag and Au fall below the anode as anode slime, while Zn ' +
+              'and Fe stay in solution.',
+          ),
+          paragraph('The result is 99.99% copper, as needed for electrical wiring.'),
+        ],
+      },
+      'electroliza-topiturilor': {
+        title: 'Electrolysis of melts',
+        blocks: [
+          paragraph(
+            'Very active metals cannot be won from water, because H₂ would be given off at the cathode ' +
+              'instead. Their molten salts are electrolysed.',
+          ),
+          formula('2NaCl(l) → 2Na(l) + Cl₂(g)'),
+          paragraph(
+            'Aluminium is made from Al₂O₃ dissolved in molten cryolite at about 950 °C, with graphite anodes ' +
+              'that slowly burn away:',
+          ),
+          formula('2Al₂O₃ + 3C → 4Al + 3CO₂'),
+          formula('W = U · I · t'),
+          paragraph('The energy used makes electrolysis pay only where electricity is cheap.'),
+        ],
+      },
+    },
+  },
+};
+
+const en: Strings = {
+  language: {
+    name: 'English',
+    locale: 'en-GB',
+    decimalSeparator: '.',
+  },
+  common: {
+    back: 'Back',
+    close: 'Close',
+    cathode: 'cathode',
+    anode: 'anode',
+    score: (score: number) => `Score: ${score}`,
+  },
+  splash: {
+    title: 'Electrolysis lab',
+    subtitle: 'Simulated electrolysis experiments',
+    start: "Let's start",
+  },
+  home: {
+    title: 'Electrolysis',
+    experiment: 'Open Experimentation',
+    missions: 'Missions',
+    history: 'Experiment history',
+  },
+  missions: {
+    title: 'Missions',
+    goal: (goal: string) => `Goal: ${goal}`,
+    progress: (percent: number) => `Progress: ${percent}%`,
+    playAgain: 'Play again ▶',
+    start: 'Start mission ▶',
+    collect: (amount: string, unit: string, product: string) => `Collect ${amount} ${unit} of ${product}`,
+    deposit: (mass: string, electrode: string) => `Deposit ${mass} g on the ${electrode}`,
+    dissolve: (mass: string, electrode: string) => `Dissolve ${mass} g from the ${electrode}`,
+    within: (objective: string, time: string) => `${objective} within ${time}`,
+    efficiency: (percent: number, product: string) => `Keep the current efficiency for ${product} above ${percent}%`,
+  },
+  missionTexts: {
+    'copper-refining': {
+      title: 'Copper refining',
+      goal: 'Deposit metallic copper on the cathode',
+      description:
+        'An impure copper anode dissolves in CuSO₄ and pure copper is deposited on the cathode. ' +
+        'Deposit 0.5 g of copper in under 10 minutes. Too high a voltage on a small cathode also gives off ' +
+        'hydrogen, which wastes charge: keep the current efficiency of copper above 90%.',
+    },
+    'hydrogen-production': {
+      title: 'Hydrogen production',
+      goal: 'Collect hydrogen gas',
+      description:
+        'Electrolyse dilute sulfuric acid to obtain 50 mL of hydrogen.',
+    },
+    'chlorine-generation': {
+      title: 'Making chlorine',
+      goal: 'Collect chlorine from brine',
+      description:
+        'In concentrated brine the chloride ions are oxidised at the anode before the water. ' +
+        'Collect 25 mL of Cl₂ within 5 minutes.',
+    },
+  },
+  history: {
+    title: 'Experiment history',
+    loading: 'Loading...',
+    empty: 'You have not saved any experiments yet.',
+    confirmDelete: (name: string) => `Delete the experiment “${name}”?`,
+    mission: (title: string) => ` · Mission: ${title}`,
+    duration: (duration: string) => `Duration: ${duration}`,
+    finished: 'Finished',
+    inProgress: 'In progress',
+    modified: (date: string) => `Modified: ${date}`,
+    open: 'Open',
+    resume: 'Continue ▶',
+    rename: 'Rename',
+    duplicate: 'Duplicate',
+    delete: 'Delete',
+    copyName: (name: string) => `${name} (copy)`,
+  },
+  experiment: {
+    title: 'Experimentation',
+    guide: 'GUIDE',
+    pause: '⏸ Pause',
+    play: '▶ Play',
+    reset: '⟲ Reset',
+    missionProgress: (percent: number) => `Mission progress: ${percent}%`,
+    cellType: 'Cell type',
+    cellTypes: { electrolysis: 'Electrolysis', galvanic: 'Galvanic cell' },
+    cell: 'Cell',
+    cellNotation: (notation: string) => `Cell: ${notation}`,
+    customCell: ' (custom)',
+    galvanicCathode: (material: string) => `Cathode (+): ${material}`,
+    galvanicAnode: (material: string) => `Anode (−): ${material}`,
+    ionConcentration: {
+      cathode: (ion: string, molarity: string) => `${ion} at the cathode: ${molarity} M`,
+      anode: (ion: string, molarity: string) => `${ion} at the anode: ${molarity} M`,
+    },
+    externalCircuit: 'External circuit',
+    loads: { resistor: 'Resistor (load)', voltmeter: 'Voltmeter' },
+    loadResistance: (resistance: string) => `Load resistance: ${resistance} Ω`,
+    solution: (name: string, formula: string) => `Solution: ${name} – ${formula}`,
+    plating: (object: string, area: number) => `Electroplating: ${object} (${area} cm²)`,
+    noPlating: 'Electroplating: the cathode is an electrode',
+    plainElectrode: 'Electrode',
+    cathode: (material: string) => `Cathode (−): ${material}`,
+    anode: (material: string) => `Anode (+): ${material}`,
+    supply: 'Supply',
+    supplyModes: { voltage: 'Constant voltage', current: 'Constant current' },
+    voltage: (voltage: string) => `Voltage: ${voltage} V`,
+    current: (current: string) => `Current: ${current} A`,
+    electrodeArea: (area: string) => `Electrode area: ${area} cm²`,
+    electrodeDistance: (distance: string) => `Distance between electrodes: ${distance} cm`,
+    roomTemperature: (celsius: string) => `Room temperature: ${celsius} °C`,
+    pressure: (atm: string, mmHg: string) => `Atmospheric pressure: ${atm} atm (${mmHg} mmHg)`,
+    gasCollection: 'Gas collection',
+    gasCollectionModes: { dry: 'Dry gas', water: 'Collected over water' },
+    saltBridge: 'Salt bridge',
+    saltBridgeStates: { wet: 'Wet', dried: 'Dried out', removed: 'Removed' },
+    indicator: 'Indicator',
+    noIndicator: 'None',
+    graphTitle: 'Gas Production Rate',
+    views: { chart: 'Chart', table: 'Table', sweep: 'Sweep' },
+    timeAxis: 'Time (s)',
+    productionAxis: 'Cumulative production',
+    comparedProduct: (product: string, unit: string) => ` of ${product} (${unit})`,
+    currentRun: 'Current experiment',
+    defaultRunName: 'Experiment',
+    compare: 'Compare with saved experiments',
+    overlaid: (names: string) => `Overlaid: ${names}`,
+    exportData: 'Export data:',
+    exportFailed: (error: string) => `Export failed: ${error}`,
+    exportErrors: {
+      'canvas-unavailable': 'the browser cannot draw images',
+      'chart-not-rendered': 'the chart could not be drawn',
+      'print-unavailable': 'the browser does not allow printing',
+    },
+    simulationTime: (seconds: number, clock: string, speed: number, paused: boolean) =>
+      `Simulation time: ${seconds} s (${clock}, ×${speed}${paused ? ', paused' : ''})`,
+    readings: (voltage: string, current: string) => `Voltage: ${voltage} V | Current: ${current} A`,
+    electrodePotentials: (cathode: string, anode: string) =>
+      `Cathode potential: ${cathode} V | anode: ${anode} V (Nernst)`,
+    emf: (emf: string) => `Cell EMF: ${emf} V`,
+    terminalVoltage: (voltage: string) => ` | Terminal voltage: ${voltage} V`,
+    decompositionVoltage: (voltage: string) => `Decomposition voltage: ${voltage} V`,
+    overpotentials: (cathode: string, anode: string) => `Cathode overpotential: ${cathode} V | anode: ${anode} V`,
+    resistance: (resistance: string, conductivity: string) =>
+      `Solution resistance: ${resistance} Ω (κ = ${conductivity} S/cm)`,
+    cracked:
+      'The beaker has cracked: the solution has almost entirely boiled away and the glass overheated. ' +
+      'The circuit is broken; restart the experiment with a lower current.',
+    bridgeOpen: 'The circuit is broken: without a wet salt bridge the ions cannot pass between the beakers.',
+    negativeEmf: 'The EMF is negative: the more noble metal has to be the cathode. Swap the electrodes.',
+    voltmeterOpen: 'The voltmeter lets no current through: the cell does not discharge.',
+    belowDecomposition: 'The voltage is below the decomposition threshold: no electrolysis takes place.',
+    heat: (solution: string, joule: string, loss: string) =>
+      `Solution temperature: ${solution} °C | Joule heating (I²R): ${joule} W, lost to the surroundings: ${loss} W`,
+    evaporation: (power: string) => `, by evaporation: ${power} W`,
+    boiling: (boilingPoint: string, atm: string) =>
+      `The solution is boiling (${boilingPoint} °C at ${atm} atm): water evaporates quickly and the beaker may crack.`,
+    warm:
+      'The cell is warming up from I²R losses. Industrial cells are cooled ' +
+      'so that the electrolyte does not boil.',
+    productionRate: (product: string, rate: string, unit: string) =>
+      `Production rate of ${product}: ${rate} ${unit}/s`,
+    faradayEfficiency: (efficiencies: string) => `Faradaic efficiency: ${efficiencies}`,
+    beakers: { cathode: 'Cathode beaker', anode: 'Anode beaker' },
+    bridgeTransport: (
+      cation: string,
+      cationShare: string,
+      anion: string,
+      anionShare: string,
+      cationMoles: string,
+      anionMoles: string,
+    ) =>
+      `Salt bridge: t(${cation}) = ${cationShare}, t(${anion}) = ${anionShare} | migrated: ` +
+      `${cationMoles} mmol ${cation} to the cathode, ${anionMoles} mmol ${anion} to the anode`,
+    conditions: (room: string, solution: string, atm: string) =>
+      `Conditions: room ${room} °C, solution ${solution} °C, ${atm} atm`,
+    vapourPressure: (water: string, dryGas: string) => ` | p(H₂O) = ${water} mmHg, p(dry gas) = ${dryGas} mmHg`,
+    collectedVolume: (product: string, volume: string) => `Volume of ${product} collected: ${volume} mL`,
+    cathodeMass: (symbol: string, mass: string, change: string) => `Cathode mass (${symbol}): ${mass} g (${change})`,
+    anodeMass: (symbol: string, mass: string, change: string) => `Anode mass (${symbol}): ${mass} g (${change})`,
+    runName: 'Experiment name',
+    notes: 'Observations',
+    notesPlaceholder: 'Write down what you observe during the experiment...',
+    save: 'Save',
+    saveFailed: (error: string) => `The experiment could not be saved: ${error}`,
+    resume: 'Continue the experiment',
+    finish: 'Finish the experiment',
+    link: 'Link to this setup',
+    bridgeRemoved: 'Salt bridge removed',
+    bridgeDried: 'Salt bridge dried out',
+    bridgeIons: (cation: string, anion: string) => `Salt Bridge (${cation} → cathode, ${anion} → anode)`,
+    accumulator: 'Accumulator',
+    voltmeterReading: (voltage: string) => `Voltmeter: ${voltage} V`,
+    resistor: (resistance: string) => `Resistor ${resistance} Ω`,
+    weighCathode: 'Weigh the cathode',
+    weighAnode: 'Weigh the anode',
+    readingModes: { noisy: 'Realistic readings (with noise)', exact: 'Exact readings' },
+    emptyTubes: 'Empty the tubes',
+    reduction: 'Reduction',
+    oxidation: 'Oxidation',
+    missionComplete: 'Mission complete!',
+    missionFailed: 'Mission failed',
+    time: (seconds: number) => `Time: ${seconds} s`,
+    retry: 'Try again',
+    backToMissions: 'Back to missions',
+  },
+  instruments: {
+    names: {
+      ammeter: 'Ammeter',
+      voltmeter: 'Voltmeter',
+      stopwatch: 'Stopwatch',
+      balance: 'Analytical balance',
+      gasTube: 'Graduated tube',
+    },
+    start: 'Start',
+    stop: 'Stop',
+    zero: 'Zero',
+    full: 'full',
+  },
+  table: {
+    cathodeMass: 'm cathode (g)',
+    anodeMass: 'm anode (g)',
+    empty: 'No data recorded yet.',
+    page: (page: number, count: number) => `Page ${page} / ${count}`,
+  },
+  chart: {
+    all: 'All',
+  },
+  faraday: {
+    title: 'Determining the Faraday constant',
+    noProduct: 'Start the electrolysis: you need a collected gas or a metal deposited on the cathode.',
+    chooseProduct: '1. Choose the measured product',
+    methods: { gas: 'volume', mass: 'deposited mass' },
+    recordPoints: '2. Record the points Q = I·t and n',
+    points: (count: number) => `${count} points`,
+    tubeFull: 'Points after the graduated tube filled up cannot be read; empty the tubes and measure again.',
+    regression: '3. Regression line n = a·Q + b',
+    tooFewPoints: 'At least 3 points with different charges are needed.',
+    constants: (electrons: number) => `4. The constants from the slope (z = ${electrons})`,
+    faraday: (value: string, error: string, percent: string, reference: string) =>
+      `F = 1/(z·a) = (${value} ± ${error}) C/mol — error ${percent}% against ${reference}`,
+    avogadro: (value: string, error: string, percent: string) =>
+      `N_A = F/e = (${value} ± ${error}) mol⁻¹ — error ${percent}%`,
+    largeError:
+      'A large error shows that not all of the charge went into this product (Faradaic efficiency below 100%) ' +
+      'or that the gas was read under other conditions.',
+  },
+  sweep: {
+    parameter: 'Swept parameter',
+    range: (from: string, to: string, unit: string) => `From ${from} to ${to} ${unit}`,
+    steps: (count: number) => `${count} steps`,
+    start: 'Start the sweep',
+    progress: (done: number, total: number) => `Measured ${done} of ${total} points...`,
+    stop: 'Stop the sweep',
+    ohmicLine: 'Ohmic region (extrapolated)',
+    caption: (parameter: string, unit: string, quantity: string) => `X: ${parameter} (${unit}) | Y: ${quantity}`,
+    currentAxis: 'Current (A)',
+    rateAxis: 'Production rate',
+    decompositionVoltage: (voltage: string) =>
+      `Decomposition voltage (extrapolated ohmic region): ${voltage} V`,
+    ohmicRegion: (from: string, resistance: string) => `Ohmic region from ${from} V: R = ${resistance} Ω`,
+    reversibleVoltage: (voltage: string) => `Theoretical decomposition voltage: ${voltage} V`,
+    overpotentialNote: 'The difference from the theoretical value comes from the overpotentials at the electrodes.',
+    noCurrent: 'No current flowed: raise the final voltage.',
+    dwell: (seconds: number) => `Each step was held for ${seconds} s before the current was read.`,
+  },
+  sweepParameters: {
+    voltage: 'Voltage',
+    concentration: 'Concentration',
+    electrodeDistance: 'Distance between electrodes',
+    temperature: 'Temperature',
+  },
+  plating: {
+    title: (object: string) => `Electroplating: ${object}`,
+    noMetal: 'The chosen solution deposits no metal on the cathode. Use a CuSO₄ or NiSO₄ bath.',
+    coating: (object: string, area: number, metal: string) =>
+      `Electroplating: ${object} (${area} cm²) coated with ${metal.toLowerCase()}`,
+    currentDensity: (density: string, min: string, max: string) =>
+      `Current density: j = I/A = ${density} A/dm² (recommended ${min}–${max} A/dm²)`,
+    depositNow: (quality: string) => `Deposit now: ${quality}`,
+    tooMuchCurrent: (current: string) =>
+      'Too much current for the surface of the object: the ions cannot reach the cathode fast enough. ' +
+      `Lower the current below ${current} A.`,
+    masses: (theoretical: string, mass: string, efficiency: string) =>
+      `theoretical m = Q·M/(z·F) = ${theoretical} mg | deposited m = ${mass} mg | efficiency ${efficiency}%`,
+    thickness: (thickness: string, density: string) =>
+      `Coating thickness: d = m/(ρ·A) = ${thickness} µm (ρ = ${density} g/cm³)`,
+    appearance: (quality: string) => `Coating appearance: ${quality}`,
+  },
+  depositQuality: {
+    slow: 'Even, but slow to deposit',
+    good: 'Bright and adherent',
+    rough: 'Rough, matt',
+    burnt: 'Burnt, powdery',
+  },
+  calculations: {
+    title: 'Step-by-step calculations',
+    duration: 'Duration t',
+    runTime: 'length of the run',
+    seconds: (seconds: number) => `${seconds} s`,
+    modes: { working: 'Show the working', practice: 'Practise' },
+    kinds: {
+      charge: 'Electric charge',
+      moles: 'Amount of substance',
+      volume: 'Volume of gas',
+      mass: 'Mass',
+      thickness: 'Coating thickness',
+      efficiency: 'Current efficiency',
+    },
+    noCurrent: 'No current is flowing: start the electrolysis to have something to calculate.',
+    currentChanged: (charge: string) =>
+      `The current changed during the run, so the charge actually passed is Q = ${charge} C; ` +
+      'the efficiency compares with a steady current.',
+    data: (current: string, time: string, temperature: string, pressure: string, area: string) =>
+      `Data: I = ${current} A, t = ${time} s, T = ${temperature} K, P = ${pressure} atm, A = ${area} cm², ` +
+      'F = 96485 C/mol, R = 0.0821 L·atm/(mol·K)',
+    answer: 'Answer',
+    check: 'Check',
+    correct: '✔ Correct',
+    wrong: '✘ Try again',
+    hint: 'Hint',
+    reveal: 'Show answer',
+    newProblem: 'New problem',
+    score: (correct: number, total: number) => `${correct} of ${total} steps right`,
+  },
+  report: {
+    title: 'Lab report',
+    generate: 'Generate report',
+    printHint: 'Choose "Save as PDF" in the print dialog to keep the report as a file.',
+    failed: (error: string) => `The report could not be generated: ${error}`,
+    student: 'Student',
+    studentPlaceholder: 'Name and class',
+    date: 'Date',
+    hypothesis: 'Hypothesis',
+    hypothesisPlaceholder: 'What do you expect to happen, and why?',
+    conclusion: 'Conclusion',
+    conclusionPlaceholder: 'What do the results show? Was the hypothesis confirmed?',
+    sections: {
+      setup: 'Apparatus',
+      reactions: 'Half-reactions',
+      chart: 'Chart',
+      data: 'Recorded data',
+      calculations: 'Calculations',
+    },
+    duration: (seconds: string, charge: string) => `Duration: ${seconds} s, charge passed: ${charge} C`,
+    noReaction: 'no reaction takes place',
+    dataRows: (shown: number, total: number) => `${shown} of ${total} readings, evenly spaced.`,
+  },
+  guide: {
+    title: 'Theory Guide',
+    contents: 'Contents',
+    search: 'Search the guide (e.g. voltage, Faraday, Cl₂)',
+    noResults: (query: string) => `Nothing found for “${query}”.`,
+    wholeChapter: 'Whole chapter',
+    live: {
+      title: (time: string) => `In your experiment (t = ${time} s)`,
+      cathode: (material: string, equations: string) => `Cathode (${material}), reduction: ${equations}`,
+      anode: (material: string, equations: string) => `Anode (${material}), oxidation: ${equations}`,
+      charge: (charge: string, current: string) => `Charge passed: Q = ${charge} C (now I = ${current} A)`,
+      product: (product: string, millimoles: string, milligrams: string) =>
+        `${product}: n = ${millimoles} mmol, m = ${milligrams} mg`,
+      gasVolume: (millilitres: string) => `, V = ${millilitres} mL`,
+      noProducts: 'No product has formed yet.',
+      potentials: (cathode: string, anode: string) => `E(cathode) = ${cathode} V, E(anode) = ${anode} V`,
+      standardPotential: (couple: string, potential: string) => `E°(${couple}) = ${potential} V`,
+      plating: (object: string, density: string, thickness: string, efficiency: string) =>
+        `${object}: j = ${density} A/dm², d = ${thickness} µm, efficiency ${efficiency}%`,
+      noPlating: 'The cathode is a plain electrode: choose an object to plate.',
+      energy: (voltage: string, charge: string, energy: string) =>
+        `Energy used: W ≈ U · Q = ${voltage} V · ${charge} C = ${energy} kJ`,
+    },
+    chapters,
+  },
+  electrolytes: {
+    h2so4: { name: 'Dilute sulfuric acid', formula: 'H₂SO₄ (0.5 M)' },
+    naoh: { name: 'Sodium hydroxide', formula: 'NaOH (1 M)' },
+    brine: { name: 'Concentrated brine', formula: 'NaCl (5 M)' },
+    cuso4: { name: 'Copper sulfate', formula: 'CuSO₄ (1 M)' },
+    cucl2: { name: 'Copper chloride', formula: 'CuCl₂ (1 M)' },
+    znso4: { name: 'Zinc sulfate', formula: 'ZnSO₄ (1 M)' },
+    feso4: { name: 'Iron(II) sulfate', formula: 'FeSO₄ (1 M)' },
+    niso4: { name: 'Nickel sulfate', formula: 'NiSO₄ (1 M)' },
+    agno3: { name: 'Silver nitrate', formula: 'AgNO₃ (1 M)' },
+    ki: { name: 'Potassium iodide', formula: 'KI (1 M)' },
+    'molten-nacl': { name: 'Molten sodium chloride', formula: 'NaCl (melt)' },
+  },
+  materials: {
+    graphite: 'Graphite',
+    platinum: 'Platinum',
+    copper: 'Copper',
+    iron: 'Iron nail',
+    zinc: 'Zinc',
+    nickel: 'Nickel',
+    silver: 'Silver',
+  },
+  products: {
+    H2: 'Hydrogen',
+    O2: 'Oxygen',
+    Cl2: 'Chlorine',
+    Cu: 'Copper',
+    Zn: 'Zinc',
+    Fe: 'Iron',
+    Ni: 'Nickel',
+    Ag: 'Silver',
+    Na: 'Sodium',
+    I2: 'Iodine',
+    'Cu2+': 'Copper ions',
+    'Fe2+': 'Iron ions',
+    'Ni2+': 'Nickel ions',
+    'Zn2+': 'Zinc ions',
+    'Ag+': 'Silver ions',
+  },
+  indicators: {
+    phenolphthalein: 'Phenolphthalein',
+    universal: 'Universal indicator',
+    litmus: 'Litmus',
+  },
+  galvanicPresets: {
+    daniell: 'Daniell cell (Zn–Cu)',
+    'zinc-silver': 'Zn–Ag',
+    'iron-copper': 'Fe–Cu',
+    'copper-silver': 'Cu–Ag',
+  },
+  platedObjects: {
+    key: 'Key',
+    coin: 'Coin',
+    spoon: 'Teaspoon',
+  },
+};
+
+export default en;
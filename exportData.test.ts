@@ -0,0 +1,60 @@
+import { buildChartSvg, fileSafeName, productSeries, recordedProducts, runToJson, samplesToCsv } from './exportData';
+import { DEFAULT_PARAMS, SimulationSample, createSimulationState } from './simulation';
+import { SavedRun } from './storage';
+
+const sample = (time: number, products: SimulationSample['products']): SimulationSample => ({
+  time,
+  voltage: 2.5,
+  current: 0.5,
+  charge: 0.5 * time,
+  products,
+  electrodes: { cathode: 10, anode: 10 },
+});
+
+const samples = [
+  sample(1, { H2: { moles: 2.6e-6, mass: 5.2e-6, volume: 0.06 } }),
+  sample(2, { H2: { moles: 5.2e-6, mass: 1.04e-5, volume: 0.12 }, Cu: { moles: 1e-6, mass: 6.4e-5, volume: 0 } }),
+];
+
+describe('exports', () => {
+  it('lists the products in order of first appearance', () => {
+    expect(recordedProducts(samples)).toEqual(['H2', 'Cu']);
+  });
+
+  it('writes one CSV row per sample, with moles and mL or g for each product', () => {
+    expect(samplesToCsv(samples).split('\n')).toEqual([
+      'time_s,voltage_V,current_A,charge_C,H2_mol,H2_mL,Cu_mol,Cu_g,cathode_mass_g,anode_mass_g',
+      '1,2.5,0.5,0.5,0.0000026,0.06,0,0,10,10',
+      '2,2.5,0.5,1,0.0000052,0.12,0.000001,0.000064,10,10',
+    ]);
+  });
+
+  it('writes the whole run as JSON that reads back unchanged', () => {
+    const run: SavedRun = {
+      id: 'run-1',
+      name: 'Electroliza "apei", prima',
+      createdAt: 0,
+      updatedAt: 0,
+      params: DEFAULT_PARAMS,
+      state: createSimulationState(DEFAULT_PARAMS),
+      samples,
+      notes: '',
+      finished: false,
+    };
+    expect(JSON.parse(runToJson(run))).toEqual(run);
+  });
+
+  it('draws one line per product with escaped labels', () => {
+    const series = productSeries(samples, id => `<${id}>`);
+    expect(series.map(line => line.label)).toEqual(['<H2> (mL)', '<Cu> (mg)']);
+    const svg = buildChartSvg(series, { title: 'A & B', xLabel: 't', yLabel: 'V' });
+    expect(svg.match(/<polyline/g)).toHaveLength(2);
+    expect(svg).toContain('A &amp; B');
+    expect(svg).toContain('&lt;H2&gt; (mL)');
+  });
+
+  it('names files without diacritics or separators', () => {
+    expect(fileSafeName('Electroliză: apă / NaCl')).toBe('Electroliza_apa_NaCl');
+    expect(fileSafeName('***')).toBe('experiment');
+  });
+});
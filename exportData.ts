@@ -0,0 +1,268 @@
+// Export of recorded runs: CSV and JSON for spreadsheets, SVG and PNG for the
+// chart. Files are downloaded in the browser build and shared on native.
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { PRODUCTS } from './electrolytes';
+import { SimulationSample, productAmount, productUnit } from './simulation';
+import { SavedRun } from './storage';
+
+// Failures of our own are thrown as codes; the screens word them in the
+// student's language (experiment.exportErrors in the catalogues).
+export type ExportErrorCode = 'canvas-unavailable' | 'chart-not-rendered' | 'print-unavailable';
+
+export class ExportError extends Error {
+  constructor(readonly code: ExportErrorCode) {
+    super(code);
+    this.name = 'ExportError';
+  }
+}
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: [number, number][]; // [x, y]
+}
+
+// Products that appear anywhere in the run, in order of first appearance.
+export const recordedProducts = (samples: SimulationSample[]): string[] => {
+  const ids: string[] = [];
+  samples.forEach(sample =>
+    Object.keys(sample.products).forEach(id => {
+      if (!ids.includes(id)) ids.push(id);
+    }),
+  );
+  return ids;
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const samplesToCsv = (samples: SimulationSample[]): string => {
+  const products = recordedProducts(samples);
+  const header = [
+    'time_s',
+    'voltage_V',
+    'current_A',
+    'charge_C',
+    ...products.flatMap(id => [`${id}_mol`, PRODUCTS[id].gas ? `${id}_mL` : `${id}_g`]),
+    'cathode_mass_g',
+    'anode_mass_g',
+  ];
+  const rows = samples.map(sample => [
+    sample.time,
+    sample.voltage,
+    sample.current,
+    sample.charge,
+    ...products.flatMap(id => {
+      const product = sample.products[id];
+      if (!product) return [0, 0];
+      return [product.moles, PRODUCTS[id].gas ? product.volume : product.mass];
+    }),
+    sample.electrodes.cathode,
+    sample.electrodes.anode,
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const runToJson = (run: SavedRun): string => JSON.stringify(run, null, 2);
+
+// Line colours, in order: cathode product, anode product, then overlaid runs.
+export const SERIES_COLORS = ['#007BFF', '#FFC107', '#E53935', '#43A047', '#8E24AA', '#00ACC1'];
+
+// Cumulative amount of one product against time.
+export const amountPoints = (samples: SimulationSample[], productId: string): [number, number][] =>
+  samples.map(sample => [sample.time, productAmount(productId, sample.products[productId])]);
+
+// Cumulative amount of every product against time, as drawn on the chart,
+// labelled with the product names of the student's language.
+export const productSeries = (samples: SimulationSample[], productName: (id: string) => string): ChartSeries[] =>
+  recordedProducts(samples).map((id, index) => ({
+    label: `${productName(id)} (${productUnit(id)})`,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    points: amountPoints(samples, id),
+  }));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Rounds an axis maximum up to 1, 2 or 5 times a power of ten.
+const niceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(factor => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Stand-alone SVG line chart of the whole run, usable outside React.
+export const buildChartSvg = (
+  series: ChartSeries[],
+  options: { title: string; xLabel: string; yLabel: string; width?: number; height?: number },
+): string => {
+  const width = options.width ?? 800;
+  const height = options.height ?? 450;
+  const margin = { top: 40, right: 20, bottom: 60, left: 70 };
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+
+  const xs = series.flatMap(line => line.points.map(point => point[0]));
+  const ys = series.flatMap(line => line.points.map(point => point[1]));
+  const xMax = niceMax(Math.max(0, ...xs));
+  const yMax = niceMax(Math.max(0, ...ys));
+  const x = (value: number) => margin.left + (value / xMax) * plotWidth;
+  const y = (value: number) => margin.top + plotHeight - (value / yMax) * plotHeight;
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  const grid = ticks
+    .map(
+      tick => `
+  <line x1="${margin.left}" y1="${y(tick * yMax)}" x2="${width - margin.right}" y2="${y(tick * yMax)}" stroke="#ddd"/>
+  <text x="${margin.left - 8}" y="${y(tick * yMax) + 4}" text-anchor="end" font-size="12">${+(tick * yMax).toPrecision(3)}</text>
+  <text x="${x(tick * xMax)}" y="${height - margin.bottom + 18}" text-anchor="middle" font-size="12">${+(tick * xMax).toPrecision(3)}</text>`,
+    )
+    .join('');
+  const lines = series
+    .map(
+      line => `
+  <polyline fill="none" stroke="${line.color}" stroke-width="2" points="${line.points
+    .map(([px, py]) => `${x(px).toFixed(1)},${y(py).toFixed(1)}`)
+    .join(' ')}"/>`,
+    )
+    .join('');
+  const legend = series
+    .map(
+      (line, index) => `
+  <rect x="${margin.left + index * 180}" y="${height - 22}" width="12" height="12" fill="${line.color}"/>
+  <text x="${margin.left + index * 180 + 18}" y="${height - 12}" font-size="12">${escapeXml(line.label)}</text>`,
+    )
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">
+  <rect width="${width}" height="${height}" fill="#fff"/>
+  <text x="${width / 2}" y="24" text-anchor="middle" font-size="16" font-weight="bold" fill="#007BFF">${escapeXml(options.title)}</text>${grid}
+  <line x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${margin.top + plotHeight}" stroke="#333"/>
+  <line x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${width - margin.right}" y2="${margin.top + plotHeight}" stroke="#333"/>
+  <text x="${margin.left + plotWidth / 2}" y="${height - margin.bottom + 38}" text-anchor="middle" font-size="12">${escapeXml(options.xLabel)}</text>
+  <text x="16" y="${margin.top + plotHeight / 2}" text-anchor="middle" font-size="12" transform="rotate(-90 16 ${margin.top + plotHeight / 2})">${escapeXml(options.yLabel)}</text>${lines}${legend}
+</svg>`;
+};
+
+// Renders an SVG string to a PNG data URL through a canvas (web only).
+const svgToPngDataUrl = (svg: string, width: number, height: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new ExportError('canvas-unavailable'));
+        return;
+      }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new ExportError('chart-not-rendered'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+// How long a downloaded file's object URL is kept before it is released.
+const URL_LIFETIME = 60000; // ms
+
+const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const fileSafeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9-_]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'experiment';
+
+// Saves a text file: a browser download on the web, the share sheet on native.
+export const exportTextFile = async (filename: string, content: string, mimeType: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    downloadUrl(url, filename);
+    // Some browsers only start reading the file after click() returns.
+    setTimeout(() => URL.revokeObjectURL(url), URL_LIFETIME);
+    return;
+  }
+  const uri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: filename });
+};
+
+// Saves a PNG of the chart. On the web it is drawn from the SVG; on native the
+// caller passes a snapshot of the on-screen chart (see react-native-view-shot).
+export const exportChartPng = async (
+  filename: string,
+  svg: string,
+  size: { width: number; height: number },
+  captureNative: () => Promise<string>,
+) => {
+  if (Platform.OS === 'web') {
+    downloadUrl(await svgToPngDataUrl(svg, size.width, size.height), filename);
+    return;
+  }
+  const uri = await captureNative();
+  await Sharing.shareAsync(uri, { mimeType: 'image/png', dialogTitle: filename });
+};
+
+// Frame of the last page sent to print, until it is removed.
+let printFrame: HTMLIFrameElement | null = null;
+// Browsers that never fire afterprint still get their frame removed after this.
+const PRINT_FRAME_LIFETIME = 60000; // ms
+
+const removePrintFrame = () => {
+  printFrame?.remove();
+  printFrame = null;
+};
+
+// Prints a complete HTML page. On the web it is loaded into a hidden frame and
+// the browser's print dialog opened on it, which can also save a PDF; on native
+// the page is shared as a file to open in a browser.
+export const printHtml = async (filename: string, html: string) => {
+  if (Platform.OS !== 'web') {
+    await exportTextFile(filename, html, 'text/html');
+    return;
+  }
+  removePrintFrame();
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  printFrame = frame;
+  const remove = () => {
+    if (printFrame === frame) removePrintFrame();
+  };
+  await new Promise<void>((resolve, reject) => {
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) {
+        remove();
+        reject(new ExportError('print-unavailable'));
+        return;
+      }
+      view.onafterprint = remove;
+      view.focus();
+      view.print();
+      setTimeout(remove, PRINT_FRAME_LIFETIME);
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+};
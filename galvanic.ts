@@ -0,0 +1,70 @@
+// Galvanic cells built from the same two beakers: each holds a metal dipped in
+// a solution of its own ions. The cell only discharges with the more noble metal
+// as the cathode; the other way round its EMF is negative.
+
+import { ION_LABELS, Electrolyte, getElectrolyte } from './electrolytes';
+import { ElectrodeSide, getElectrodeMaterial } from './electrodes';
+
+export interface HalfCell {
+  material: string; // ElectrodeMaterial id
+  electrolyte: string; // Electrolyte id of the metal's salt
+  ion: string; // the metal's ion in solution
+}
+
+export const HALF_CELLS: HalfCell[] = [
+  { material: 'zinc', electrolyte: 'znso4', ion: 'Zn2+' },
+  { material: 'iron', electrolyte: 'feso4', ion: 'Fe2+' },
+  { material: 'nickel', electrolyte: 'niso4', ion: 'Ni2+' },
+  { material: 'copper', electrolyte: 'cuso4', ion: 'Cu2+' },
+  { material: 'silver', electrolyte: 'agno3', ion: 'Ag+' },
+];
+
+export const getHalfCell = (material: string): HalfCell =>
+  HALF_CELLS.find(halfCell => halfCell.material === material) ?? HALF_CELLS[0];
+
+export interface GalvanicPreset {
+  id: string;
+  cathodeMaterial: string;
+  anodeMaterial: string;
+}
+
+export const GALVANIC_PRESETS: GalvanicPreset[] = [
+  { id: 'daniell', cathodeMaterial: 'copper', anodeMaterial: 'zinc' },
+  { id: 'zinc-silver', cathodeMaterial: 'silver', anodeMaterial: 'zinc' },
+  { id: 'iron-copper', cathodeMaterial: 'copper', anodeMaterial: 'iron' },
+  { id: 'copper-silver', cathodeMaterial: 'silver', anodeMaterial: 'copper' },
+];
+
+export const DEFAULT_GALVANIC_PRESET = GALVANIC_PRESETS[0];
+
+// Solution in one beaker of a galvanic cell.
+export const halfCellElectrolyte = (material: string): Electrolyte =>
+  getElectrolyte(getHalfCell(material).electrolyte);
+
+// Starting composition of a half-cell's solution (mol/L) with its metal ion at
+// the chosen concentration; the counter-ions follow in proportion.
+export const halfCellComposition = (material: string, ionConcentration: number): Record<string, number> => {
+  const halfCell = getHalfCell(material);
+  const { composition } = halfCellElectrolyte(material);
+  const scale = ionConcentration / composition[halfCell.ion];
+  const scaled: Record<string, number> = {};
+  Object.entries(composition).forEach(([formula, concentration]) => {
+    scaled[formula] = formula === 'H2O' ? concentration : concentration * scale;
+  });
+  return scaled;
+};
+
+// Line notation of the cell, anode on the left: Zn | Zn²⁺(1 M) || Cu²⁺(1 M) | Cu
+export const cellNotation = (
+  materials: Record<ElectrodeSide, string>,
+  concentrations: Record<ElectrodeSide, number>,
+  formatMolarity: (molarity: number) => string = molarity => String(+molarity.toFixed(2)),
+): string => {
+  const half = (side: ElectrodeSide) => ({
+    symbol: getElectrodeMaterial(materials[side]).symbol,
+    ion: `${ION_LABELS[getHalfCell(materials[side]).ion]}(${formatMolarity(concentrations[side])} M)`,
+  });
+  const anode = half('anode');
+  const cathode = half('cathode');
+  return `${anode.symbol} | ${anode.ion} || ${cathode.ion} | ${cathode.symbol}`;
+};
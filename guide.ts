@@ -0,0 +1,179 @@
+// Theoretical guide: its chapters and sections, the blocks a section is made
+// of, and the numbers of a running experiment the guide can be opened with.
+// The texts themselves are in the catalogues under guide.chapters.
+
+import { ElectrodeSide, ELECTRODE_MATERIALS } from './electrodes';
+import { ION_LABELS, PRODUCTS } from './electrolytes';
+import { currentDensity, platingResult } from './plating';
+import {
+  CellElectrics,
+  CellType,
+  SaltBridgeState,
+  SimulationParams,
+  SimulationState,
+  bridgeMigration,
+  transportNumbers,
+} from './simulation';
+
+// Chapters in reading order, each with its sections. Ids appear in links
+// (#/…?guide=<id>), so they stay in Romanian whatever the language.
+export const GUIDE_CHAPTERS = {
+  semireactii: ['electroliza-apei', 'catod-si-anod', 'ordinea-descarcarii'],
+  'legile-lui-faraday': ['prima-lege', 'viteza-reactiei', 'volumul-gazelor', 'randamentul'],
+  'seria-electrochimica': ['potentiale-standard', 'ecuatia-nernst', 'tem-pilei'],
+  'puntea-de-sare': ['rolul-puntii', 'numere-de-transport'],
+  galvanizare: ['depunerea-metalului', 'densitatea-de-curent', 'grosimea-stratului'],
+  'electroliza-industriala': ['cloralcalii', 'rafinarea-cuprului', 'electroliza-topiturilor'],
+} as const;
+
+export type GuideChapterId = keyof typeof GUIDE_CHAPTERS;
+export const GUIDE_CHAPTER_IDS = Object.keys(GUIDE_CHAPTERS) as GuideChapterId[];
+
+// A formula is a row of text runs and fractions; indices and charges are
+// written with Unicode sub- and superscripts (H₂, Cu²⁺).
+export type FormulaPart = string | { numerator: string; denominator: string };
+
+export type GuideBlock =
+  | { kind: 'text'; text: string }
+  | { kind: 'formula'; parts: FormulaPart[] }
+  | { kind: 'series' }; // the electrochemical series, drawn from the electrode data
+
+export const paragraph = (text: string): GuideBlock => ({ kind: 'text', text });
+export const formula = (...parts: FormulaPart[]): GuideBlock => ({ kind: 'formula', parts });
+export const fraction = (numerator: string, denominator: string): FormulaPart => ({ numerator, denominator });
+export const SERIES: GuideBlock = { kind: 'series' };
+
+export interface GuideSection {
+  title: string;
+  blocks: GuideBlock[];
+}
+
+// Shape of guide.chapters in every catalogue: the same chapters and sections.
+export type GuideChapters = {
+  [C in GuideChapterId]: {
+    title: string;
+    sections: Record<(typeof GUIDE_CHAPTERS)[C][number], GuideSection>;
+  };
+};
+
+export interface GuideEntry {
+  chapter: GuideChapterId;
+  section?: string; // the whole chapter when missing
+}
+
+// What a link's guide id points at: a chapter, a section of one, or nothing.
+export const findGuideEntry = (id: string): GuideEntry | undefined => {
+  if (id in GUIDE_CHAPTERS) return { chapter: id as GuideChapterId };
+  const chapter = GUIDE_CHAPTER_IDS.find(candidate =>
+    (GUIDE_CHAPTERS[candidate] as readonly string[]).includes(id),
+  );
+  return chapter && { chapter, section: id };
+};
+
+export const sectionOf = (chapters: GuideChapters, chapter: GuideChapterId, section: string): GuideSection =>
+  (chapters[chapter].sections as Record<string, GuideSection>)[section];
+
+export const formulaText = (parts: FormulaPart[]): string =>
+  parts.map(part => (typeof part === 'string' ? part : `(${part.numerator})/(${part.denominator})`)).join('');
+
+const blockText = (block: GuideBlock): string =>
+  block.kind === 'text' ? block.text : block.kind === 'formula' ? formulaText(block.parts) : '';
+
+// Search ignores case and diacritics, so "punte" finds "Puntea" and "sarcina" finds "sarcină".
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+// Sections whose title or text contains every word of the query, in reading order.
+export const searchGuide = (chapters: GuideChapters, query: string): Required<GuideEntry>[] => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  return GUIDE_CHAPTER_IDS.flatMap(chapter =>
+    GUIDE_CHAPTERS[chapter]
+      .filter(section => {
+        const { title, blocks } = sectionOf(chapters, chapter, section);
+        const text = normalize([chapters[chapter].title, title, ...blocks.map(blockText)].join(' '));
+        return words.every(word => text.includes(word));
+      })
+      .map(section => ({ chapter, section })),
+  );
+};
+
+// One couple of the electrochemical series: a metal's ion and E° of Mⁿ⁺/M.
+export interface SeriesEntry {
+  material?: string; // ElectrodeMaterial id; missing for hydrogen
+  couple: string;
+  potential: number; // V vs SHE
+}
+
+// Metals the lab has, with hydrogen as the zero, from most active to most noble.
+export const ELECTROCHEMICAL_SERIES: SeriesEntry[] = [
+  { couple: '2H⁺/H₂', potential: 0 },
+  ...ELECTRODE_MATERIALS.filter(material => material.dissolution).map(material => ({
+    material: material.id,
+    couple: `${ION_LABELS[material.dissolution!.product] ?? material.dissolution!.product}/${material.symbol}`,
+    potential: material.dissolution!.potential,
+  })),
+].sort((a, b) => a.potential - b.potential);
+
+// The experiment as it was when the guide was opened from it.
+export interface GuideContext {
+  cell: CellType;
+  side?: ElectrodeSide; // electrode tapped to open the guide
+  materials: Record<ElectrodeSide, string>; // ElectrodeMaterial ids
+  reactions: Record<ElectrodeSide, { equation: string; share: number }[]>;
+  time: number; // s
+  voltage: number; // V
+  current: number; // A
+  charge: number; // C
+  potentials: Record<ElectrodeSide, number>; // V vs SHE
+  cellVoltage: number; // V, EMF of a galvanic cell or decomposition voltage
+  products: { id: string; moles: number; mass: number; volume: number }[];
+  saltBridge: SaltBridgeState;
+  transport: { cation: number; anion: number };
+  migrated: { cation: number; anion: number }; // mol through the salt bridge
+  plating?: { object: string; density: number; thickness: number; efficiency: number };
+}
+
+export const guideContext = (
+  state: SimulationState,
+  params: SimulationParams,
+  electrics: CellElectrics,
+  side?: ElectrodeSide,
+): GuideContext => {
+  const shares = (reactions: CellElectrics['reactions'][ElectrodeSide]) =>
+    reactions.map(share => ({
+      equation: share.reaction.equation,
+      share: electrics.current > 0 ? share.current / electrics.current : 0,
+    }));
+  const plating = params.platedObject ? platingResult(state, params) : null;
+  return {
+    cell: params.cell ?? 'electrolysis',
+    side,
+    materials: { cathode: params.cathodeMaterial, anode: params.anodeMaterial },
+    reactions: { cathode: shares(electrics.reactions.cathode), anode: shares(electrics.reactions.anode) },
+    time: state.time,
+    voltage: electrics.voltage,
+    current: electrics.current,
+    charge: state.charge,
+    potentials: electrics.potentials,
+    cellVoltage: params.cell === 'galvanic' ? electrics.emf : electrics.decompositionVoltage,
+    products: Object.entries(state.products)
+      .filter(([id]) => PRODUCTS[id])
+      .map(([id, product]) => ({ id, ...product })),
+    saltBridge: params.saltBridge,
+    transport: transportNumbers(),
+    migrated: bridgeMigration(state.charge),
+    plating:
+      plating && params.platedObject
+        ? {
+            object: params.platedObject,
+            density: currentDensity(electrics.current, params.electrodeArea),
+            thickness: plating.thickness,
+            efficiency: plating.efficiency,
+          }
+        : undefined,
+  };
+};
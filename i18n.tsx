@@ -0,0 +1,77 @@
+// Language of the interface: the text catalogues, the switch between them and
+// numbers written the way each language writes them. Screens read all of it
+// through useLocale(); exported files keep a decimal point whatever the language.
+
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import en from './en';
+import ro, { Strings } from './ro';
+import { loadLanguage, saveLanguage } from './storage';
+
+export type Language = 'ro' | 'en';
+
+export const CATALOGUES: Record<Language, Strings> = { ro, en };
+export const LANGUAGES = Object.keys(CATALOGUES) as Language[];
+
+// Fixed decimals by default; trim drops trailing zeros (0,50 → 0,5).
+export type NumberFormat = (value: number, digits?: number, trim?: boolean) => string;
+
+export const formatNumber = (value: number, digits: number, separator: string, trim = false): string => {
+  const text = trim ? String(+value.toFixed(digits)) : value.toFixed(digits);
+  return separator === '.' ? text : text.replace('.', separator);
+};
+
+// Text of one item of a data table (electrolytes, materials...) by its id.
+export const byId = <T,>(table: { [id: string]: T }, id: string): T => table[id];
+
+export interface Locale {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  s: Strings;
+  n: NumberFormat;
+}
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// Until the student picks a language, the browser's one is used if the app has it.
+const browserLanguage = (): Language => {
+  const preferred = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2).toLowerCase();
+  return isLanguage(preferred) ? preferred : 'ro';
+};
+
+const localeFor = (language: Language, setLanguage: (language: Language) => void): Locale => {
+  const s = CATALOGUES[language];
+  return {
+    language,
+    setLanguage,
+    s,
+    n: (value, digits = 0, trim = false) => formatNumber(value, digits, s.language.decimalSeparator, trim),
+  };
+};
+
+const LocaleContext = createContext<Locale>(localeFor('ro', () => {}));
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(browserLanguage);
+  // A language picked before the saved one has loaded wins over it.
+  const picked = useRef(false);
+
+  useEffect(() => {
+    loadLanguage().then(saved => {
+      if (isLanguage(saved) && !picked.current) setLanguageState(saved);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (typeof document !== 'undefined') document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: Language) => {
+    picked.current = true;
+    setLanguageState(next);
+    saveLanguage(next);
+  };
+
+  return <LocaleContext.Provider value={localeFor(language, setLanguage)}>{children}</LocaleContext.Provider>;
+};
+
+export const useLocale = (): Locale => useContext(LocaleContext);
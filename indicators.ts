@@ -0,0 +1,111 @@
+// Acid–base indicators and the colour each beaker shows. Colours are blended
+// in RGB, which is close enough for the small range of tints involved.
+
+import { Electrolyte } from './electrolytes';
+import { SOLUTION_VOLUME, concentration } from './simulation';
+
+// Colour of the indicator at a given pH; strength is how much it covers the
+// solution's own colour (0 = colourless form).
+interface ColorStop {
+  pH: number;
+  color: string;
+  strength: number;
+}
+
+export interface Indicator {
+  id: string;
+  stops: ColorStop[]; // in increasing pH
+}
+
+export const INDICATORS: Indicator[] = [
+  {
+    id: 'phenolphthalein',
+    stops: [
+      { pH: 8.2, color: '#FF1493', strength: 0 },
+      { pH: 10, color: '#E0117F', strength: 0.85 },
+    ],
+  },
+  {
+    id: 'universal',
+    stops: [
+      { pH: 0, color: '#D50000', strength: 0.75 },
+      { pH: 3, color: '#FF6D00', strength: 0.75 },
+      { pH: 5, color: '#FFD600', strength: 0.75 },
+      { pH: 7, color: '#43A047', strength: 0.75 },
+      { pH: 9, color: '#1E88E5', strength: 0.75 },
+      { pH: 11, color: '#3949AB', strength: 0.75 },
+      { pH: 14, color: '#6A1B9A', strength: 0.75 },
+    ],
+  },
+  {
+    id: 'litmus',
+    stops: [
+      { pH: 4.5, color: '#D32F2F', strength: 0.7 },
+      { pH: 8.3, color: '#1E4FD8', strength: 0.7 },
+    ],
+  },
+];
+
+export const getIndicator = (id: string): Indicator | undefined =>
+  INDICATORS.find(indicator => indicator.id === id);
+
+// Colour of water once the coloured ion is gone.
+const WATER_COLOR = '#EEF6FB';
+
+const parseHex = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+// Blends two #RRGGBB colours; amount 0 gives the first, 1 the second.
+export const mixColors = (from: string, to: string, amount: number): string => {
+  const a = parseHex(from);
+  const b = parseHex(to);
+  return toHex(a.map((value, index) => value + (b[index] - value) * amount));
+};
+
+const indicatorColor = (indicator: Indicator, pH: number): ColorStop => {
+  const { stops } = indicator;
+  if (pH <= stops[0].pH) return stops[0];
+  const upper = stops.findIndex(stop => stop.pH >= pH);
+  if (upper === -1) return stops[stops.length - 1];
+  const low = stops[upper - 1];
+  const high = stops[upper];
+  const amount = (pH - low.pH) / (high.pH - low.pH);
+  return {
+    pH,
+    color: mixColors(low.color, high.color, amount),
+    strength: low.strength + (high.strength - low.strength) * amount,
+  };
+};
+
+// Colour of the solution itself: the tint of a coloured ion fades with its
+// concentration (the blue of CuSO₄ as copper plates out).
+export const solutionTint = (
+  electrolyte: Electrolyte,
+  species: Record<string, number>,
+  volume = SOLUTION_VOLUME,
+): string => {
+  if (!electrolyte.colorIon) return electrolyte.solutionColor;
+  const initial = electrolyte.composition[electrolyte.colorIon];
+  const fraction = Math.min(1, concentration(species, electrolyte.colorIon, volume) / initial);
+  return mixColors(WATER_COLOR, electrolyte.solutionColor, fraction);
+};
+
+// What the beaker looks like, with the indicator (if any) over the solution.
+export const beakerColor = (
+  electrolyte: Electrolyte,
+  species: Record<string, number>,
+  volume: number,
+  pH: number,
+  indicator?: Indicator,
+): string => {
+  const tint = solutionTint(electrolyte, species, volume);
+  if (!indicator) return tint;
+  const { color, strength } = indicatorColor(indicator, pH);
+  return mixColors(tint, color, strength);
+};
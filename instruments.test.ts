@@ -0,0 +1,42 @@
+import { formatReading, measurementNoise, readInstrument } from './instruments';
+
+const exact = { noise: false, seed: 0 };
+
+describe('instruments', () => {
+  it('rounds a reading to the resolution of the display', () => {
+    expect(readInstrument('ammeter', 0.4567, exact)).toBeCloseTo(0.46);
+    expect(readInstrument('balance', 12.345678, exact)).toBeCloseTo(12.3457);
+  });
+
+  it('overloads beyond the end of its range', () => {
+    expect(readInstrument('gasTube', 51, exact)).toBeNull();
+    expect(readInstrument('ammeter', -11, exact)).toBeNull();
+    expect(formatReading('gasTube', null)).toBe('OL');
+  });
+
+  it('never shows less than zero on a scale that starts there', () => {
+    expect(readInstrument('gasTube', 0, { noise: true, seed: 3 })).toBeGreaterThanOrEqual(0);
+    expect(readInstrument('voltmeter', -1.2, exact)).toBeCloseTo(-1.2);
+  });
+
+  it('scatters the same way for the same seed', () => {
+    const reading = readInstrument('voltmeter', 2.5, { noise: true, seed: 42 });
+    expect(readInstrument('voltmeter', 2.5, { noise: true, seed: 42 })).toBe(reading);
+    expect(Math.abs(reading! - 2.5)).toBeLessThan(0.1);
+  });
+
+  it('gives normal noise of unit spread', () => {
+    const deviates = Array.from({ length: 2000 }, (_, seed) => measurementNoise('balance', seed));
+    const mean = deviates.reduce((total, value) => total + value, 0) / deviates.length;
+    const variance = deviates.reduce((total, value) => total + (value - mean) ** 2, 0) / deviates.length;
+    expect(Math.abs(mean)).toBeLessThan(0.1);
+    expect(Math.sqrt(variance)).toBeGreaterThan(0.9);
+    expect(Math.sqrt(variance)).toBeLessThan(1.1);
+  });
+
+  it('shows as many decimals as the resolution', () => {
+    expect(formatReading('balance', 1.5)).toBe('1.5000');
+    expect(formatReading('gasTube', 12)).toBe('12.0');
+    expect(formatReading('ammeter', 0.5, (value, digits) => value.toFixed(digits).replace('.', ','))).toBe('0,50');
+  });
+});
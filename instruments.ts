@@ -0,0 +1,75 @@
+// Virtual measuring instruments on the apparatus. Each one shows the model's
+// value the way a real instrument would: rounded to its resolution, limited to
+// its range and, if asked, with the scatter of a real measurement.
+
+export type InstrumentId = 'ammeter' | 'voltmeter' | 'stopwatch' | 'balance' | 'gasTube';
+
+export interface InstrumentSpec {
+  id: InstrumentId;
+  unit: string;
+  resolution: number; // smallest step the display shows
+  noise: number; // standard deviation of a reading, in the same unit
+  max: number; // end of the range; beyond it the display overloads
+}
+
+export const INSTRUMENTS: Record<InstrumentId, InstrumentSpec> = {
+  ammeter: { id: 'ammeter', unit: 'A', resolution: 0.01, noise: 0.005, max: 10 },
+  voltmeter: { id: 'voltmeter', unit: 'V', resolution: 0.01, noise: 0.01, max: 20 },
+  // The noise of a stopwatch is the student's reaction time.
+  stopwatch: { id: 'stopwatch', unit: 's', resolution: 0.01, noise: 0.15, max: 35999 },
+  balance: { id: 'balance', unit: 'g', resolution: 0.0001, noise: 0.0001, max: 220 },
+  // Hofmann tube graduated every 0.2 mL, read to half a division; the noise is parallax.
+  gasTube: { id: 'gasTube', unit: 'mL', resolution: 0.1, noise: 0.1, max: 50 },
+};
+
+// Divisions marked on the gas tubes, in mL.
+export const TUBE_MAJOR_DIVISION = 10;
+
+// Small deterministic generator (mulberry32), so a reading stays the same for
+// as long as what it measures does instead of flickering on every render.
+const random = (seed: number) => {
+  let t = (seed + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const SEED_OFFSETS: Record<InstrumentId, number> = {
+  ammeter: 1,
+  voltmeter: 2,
+  stopwatch: 3,
+  balance: 4,
+  gasTube: 5,
+};
+
+// Standard normal deviate for one instrument and one moment (Box–Muller).
+export const measurementNoise = (id: InstrumentId, seed: number): number => {
+  const base = Math.floor(seed) * 16 + SEED_OFFSETS[id] * 7919;
+  const u = Math.max(Number.EPSILON, random(base));
+  const v = random(base + 1);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// What the instrument displays for a true value, or null when it is off the
+// scale. The seed picks the scatter; the same seed gives the same reading.
+export const readInstrument = (
+  id: InstrumentId,
+  value: number,
+  options: { noise: boolean; seed: number },
+): number | null => {
+  const spec = INSTRUMENTS[id];
+  const measured = options.noise ? value + spec.noise * measurementNoise(id, options.seed) : value;
+  if (Math.abs(measured) > spec.max) return null;
+  const reading = Math.round(measured / spec.resolution) * spec.resolution;
+  // Instruments that cannot read below zero stop there.
+  return id === 'gasTube' || id === 'balance' || id === 'stopwatch' ? Math.max(0, reading) : reading;
+};
+
+const decimals = (resolution: number) => Math.max(0, -Math.floor(Math.log10(resolution) + 1e-9));
+
+// Display text of a reading, with as many decimals as the resolution allows.
+export const formatReading = (
+  id: InstrumentId,
+  reading: number | null,
+  format: (value: number, digits: number) => string = (value, digits) => value.toFixed(digits),
+): string => (reading === null ? 'OL' : format(reading, decimals(INSTRUMENTS[id].resolution)));
@@ -0,0 +1,35 @@
+import { MISSIONS, evaluateMission, getMission, missionParams } from './missions';
+import { SimulationSample, advanceSimulation, createSimulationState } from './simulation';
+
+// Longest run a starting setup may need; no mission's par time comes near it.
+const TIME_LIMIT = 3600; // s
+
+describe('missions', () => {
+  it.each(MISSIONS.map(mission => [mission.id, mission] as const))(
+    '%s can be completed from its starting setup',
+    (_id, mission) => {
+      const params = missionParams(mission);
+      let state = createSimulationState(params);
+      const samples: SimulationSample[] = [];
+      let status = evaluateMission(mission, state, samples, params);
+      while (!status.complete && !status.failed && state.time < TIME_LIMIT) {
+        const next = advanceSimulation(state, params, 60);
+        if (!next.samples.length) break;
+        state = next.state;
+        samples.push(...next.samples);
+        status = evaluateMission(mission, state, samples, params);
+      }
+      expect(status.failed).toBe(false);
+      expect(status.complete).toBe(true);
+    },
+  );
+
+  it('fails copper refining once hydrogen takes too much of the charge', () => {
+    const mission = getMission('copper-refining')!;
+    const params = { ...missionParams(mission), voltage: 12, electrodeArea: 10 };
+    const { state, samples } = advanceSimulation(createSimulationState(params), params, 60);
+    const status = evaluateMission(mission, state, samples, params);
+    expect(status.objectives.find(objective => objective.objective.kind === 'efficiency')?.failed).toBe(true);
+    expect(status.failed).toBe(true);
+  });
+});
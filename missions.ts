@@ -0,0 +1,236 @@
+// Missions are plain data: a starting setup, the parameters the player may not
+// touch and a list of objectives that are checked against the live simulation.
+// Their title, goal and description are in the text catalogues.
+
+import { ElectrodeSide } from './electrodes';
+import { PRODUCTS } from './electrolytes';
+import { NumberFormat } from './i18n';
+import { Strings } from './ro';
+import {
+  DEFAULT_PARAMS,
+  MIN_CURRENT,
+  SimulationParams,
+  SimulationSample,
+  SimulationState,
+  createSimulationState,
+  faradaicEfficiencies,
+  productAmount,
+  productUnit,
+} from './simulation';
+
+export type Objective =
+  // Collect an amount of product, in the unit of productUnit (mL or mg).
+  | { kind: 'collect'; product: string; amount: number; within?: number }
+  // Change the mass of an electrode by this many grams (negative: lose mass).
+  | { kind: 'electrode-mass'; side: ElectrodeSide; change: number; within?: number }
+  // Keep the Faradaic (current) efficiency of a product above a minimum for the
+  // whole run.
+  | { kind: 'efficiency'; product: string; minimum: number };
+
+export interface Mission {
+  id: string;
+  setup: Partial<SimulationParams>;
+  locked: (keyof SimulationParams)[];
+  objectives: Objective[];
+  parTime: number; // s, a completion this fast earns the full time bonus
+}
+
+export interface ObjectiveStatus {
+  objective: Objective;
+  progress: number; // 0–1
+  complete: boolean;
+  failed: boolean;
+}
+
+export interface MissionStatus {
+  objectives: ObjectiveStatus[];
+  progress: number; // 0–1
+  complete: boolean;
+  failed: boolean;
+  completedAt?: number; // s of simulation time
+}
+
+export interface MissionResult {
+  missionId: string;
+  progress: number;
+  completed: boolean;
+  score: number;
+  stars: number;
+  time?: number;
+}
+
+export const MISSIONS: Mission[] = [
+  {
+    id: 'copper-refining',
+    setup: {
+      electrolyte: 'cuso4',
+      cathodeMaterial: 'copper',
+      anodeMaterial: 'copper',
+      mode: 'voltage',
+      voltage: 6,
+      electrodeArea: 50,
+    },
+    locked: ['electrolyte', 'cathodeMaterial', 'anodeMaterial'],
+    objectives: [
+      { kind: 'electrode-mass', side: 'cathode', change: 0.5, within: 600 },
+      { kind: 'efficiency', product: 'Cu', minimum: 0.9 },
+    ],
+    parTime: 300,
+  },
+  {
+    id: 'hydrogen-production',
+    setup: { electrolyte: 'h2so4', mode: 'voltage', voltage: 2.8 },
+    locked: ['electrolyte', 'mode'],
+    objectives: [{ kind: 'collect', product: 'H2', amount: 50 }],
+    parTime: 300,
+  },
+  {
+    id: 'chlorine-generation',
+    setup: { electrolyte: 'brine', cathodeMaterial: 'iron', anodeMaterial: 'graphite', mode: 'current', current: 1 },
+    locked: ['electrolyte', 'anodeMaterial'],
+    objectives: [{ kind: 'collect', product: 'Cl2', amount: 25, within: 300 }],
+    parTime: 120,
+  },
+];
+
+export const getMission = (id: string): Mission | undefined =>
+  MISSIONS.find(mission => mission.id === id);
+
+export const missionParams = (mission: Mission): SimulationParams => ({
+  ...DEFAULT_PARAMS,
+  ...mission.setup,
+});
+
+const formatTime = (seconds: number) =>
+  seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${seconds} s`;
+
+export const describeObjective = (objective: Objective, s: Strings, n: NumberFormat): string => {
+  switch (objective.kind) {
+    case 'collect': {
+      const text = s.missions.collect(
+        n(objective.amount, 2, true),
+        productUnit(objective.product),
+        PRODUCTS[objective.product].label,
+      );
+      return objective.within ? s.missions.within(text, formatTime(objective.within)) : text;
+    }
+    case 'electrode-mass': {
+      const electrode = s.common[objective.side];
+      const text = objective.change >= 0
+        ? s.missions.deposit(n(objective.change, 3, true), electrode)
+        : s.missions.dissolve(n(-objective.change, 3, true), electrode);
+      return objective.within ? s.missions.within(text, formatTime(objective.within)) : text;
+    }
+    case 'efficiency':
+      return s.missions.efficiency(Math.round(objective.minimum * 100), PRODUCTS[objective.product].label);
+  }
+};
+
+// Progress of a target reached at some point of the run, with an optional
+// deadline. Returns the sample at which it was first reached.
+const evaluateTarget = (
+  samples: SimulationSample[],
+  state: SimulationState,
+  measure: (sample: Pick<SimulationSample, 'products' | 'electrodes'>) => number,
+  target: number,
+  within?: number,
+) => {
+  const reached = samples.find(sample => measure(sample) >= target);
+  const complete = !!reached && (within === undefined || reached.time <= within);
+  const failed = !complete && within !== undefined && state.time > within;
+  return {
+    progress: complete ? 1 : Math.max(0, Math.min(1, measure(state) / target)),
+    complete,
+    failed,
+    completedAt: complete ? reached!.time : undefined,
+  };
+};
+
+export const evaluateMission = (
+  mission: Mission,
+  state: SimulationState,
+  samples: SimulationSample[],
+  params: SimulationParams,
+): MissionStatus => {
+  const initial = createSimulationState(params).electrodes;
+  const completionTimes: number[] = [];
+
+  // Targets first; constraints only count as met once the targets are.
+  const targets = mission.objectives.map(objective => {
+    switch (objective.kind) {
+      case 'collect': {
+        const result = evaluateTarget(
+          samples,
+          state,
+          sample => productAmount(objective.product, sample.products[objective.product]),
+          objective.amount,
+          objective.within,
+        );
+        if (result.completedAt !== undefined) completionTimes.push(result.completedAt);
+        return result;
+      }
+      case 'electrode-mass': {
+        const sign = Math.sign(objective.change) || 1;
+        const result = evaluateTarget(
+          samples,
+          state,
+          sample => sign * (sample.electrodes[objective.side] - initial[objective.side]),
+          Math.abs(objective.change),
+          objective.within,
+        );
+        if (result.completedAt !== undefined) completionTimes.push(result.completedAt);
+        return result;
+      }
+      case 'efficiency':
+        return null;
+    }
+  });
+  const targetsComplete = targets.every(target => target === null || target.complete);
+
+  const objectives = mission.objectives.map((objective, index): ObjectiveStatus => {
+    const target = targets[index];
+    if (target || objective.kind !== 'efficiency') {
+      return { objective, progress: target!.progress, complete: target!.complete, failed: target!.failed };
+    }
+    const failed = samples.some(
+      sample =>
+        sample.current >= MIN_CURRENT &&
+        (faradaicEfficiencies(sample, params)[objective.product] ?? 0) < objective.minimum,
+    );
+    return { objective, progress: failed ? 0 : 1, complete: !failed && targetsComplete, failed };
+  });
+
+  const complete = objectives.every(objective => objective.complete);
+  return {
+    objectives,
+    progress: objectives.reduce((total, objective) => total + objective.progress, 0) / objectives.length,
+    complete,
+    failed: objectives.some(objective => objective.failed),
+    completedAt: complete ? Math.max(0, ...completionTimes) : undefined,
+  };
+};
+
+// Half the score for finishing, the other half for beating the par time.
+export const scoreMission = (mission: Mission, status: MissionStatus): MissionResult => {
+  if (!status.complete || status.completedAt === undefined) {
+    return { missionId: mission.id, progress: status.progress, completed: false, score: 0, stars: 0 };
+  }
+  const speed = Math.min(1, mission.parTime / Math.max(1, status.completedAt));
+  const score = 500 + Math.round(500 * speed);
+  return {
+    missionId: mission.id,
+    progress: 1,
+    completed: true,
+    score,
+    stars: score >= 900 ? 3 : score >= 700 ? 2 : 1,
+    time: status.completedAt,
+  };
+};
+
+// Keeps the better of two attempts at the same mission.
+export const bestResult = (previous: MissionResult | undefined, next: MissionResult): MissionResult => {
+  if (!previous) return next;
+  if (next.completed !== previous.completed) return next.completed ? next : previous;
+  if (next.completed) return next.score > previous.score ? next : previous;
+  return next.progress > previous.progress ? next : previous;
+};
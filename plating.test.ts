@@ -0,0 +1,53 @@
+import { coatingQuality, currentDensity, depositQuality, getPlatedObject, platingResult } from './plating';
+import { DEFAULT_PARAMS, SimulationParams, SimulationSample, advanceSimulation, createSimulationState } from './simulation';
+
+const reading = (current: number): SimulationSample => ({
+  time: 0,
+  voltage: 2,
+  current,
+  charge: 0,
+  products: {},
+  electrodes: { cathode: 0, anode: 0 },
+});
+
+describe('plating', () => {
+  it('works in A/dm²', () => {
+    expect(currentDensity(0.16, 8)).toBeCloseTo(2);
+  });
+
+  it('grades the deposit by current density', () => {
+    expect(depositQuality('Cu', 0.5)).toBe('slow');
+    expect(depositQuality('Cu', 2)).toBe('good');
+    expect(depositQuality('Cu', 6)).toBe('rough');
+    expect(depositQuality('Cu', 9)).toBe('burnt');
+    expect(depositQuality('Ag', 1.5)).toBe('rough');
+  });
+
+  it('keeps the worst density the coating grew at', () => {
+    const area = getPlatedObject('coin')!.area;
+    expect(coatingQuality([reading(0.16), reading(0.4), reading(0.16)], 'Cu', area)).toBe('rough');
+    expect(coatingQuality([reading(0)], 'Cu', area)).toBe('slow');
+  });
+
+  it('spreads the deposited copper over the coin', () => {
+    const params: SimulationParams = {
+      ...DEFAULT_PARAMS,
+      electrolyte: 'cuso4',
+      anodeMaterial: 'copper',
+      platedObject: 'coin',
+      electrodeArea: getPlatedObject('coin')!.area,
+      mode: 'current',
+      current: 0.16,
+    };
+    const { state } = advanceSimulation(createSimulationState(params), params, 600);
+    const result = platingResult(state, params)!;
+    expect(result.productId).toBe('Cu');
+    expect(result.charge).toBeCloseTo(96);
+    expect(result.efficiency).toBeCloseTo(100, 0);
+    expect(result.thickness).toBeCloseTo((result.mass / (8.96 * 8)) * 1e4, 1);
+  });
+
+  it('has nothing to report when the bath deposits no metal', () => {
+    expect(platingResult(createSimulationState(DEFAULT_PARAMS), DEFAULT_PARAMS)).toBeNull();
+  });
+});
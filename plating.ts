@@ -0,0 +1,95 @@
+// Electroplating: the cathode is an object to be coated rather than a rod.
+// The coating's mass and thickness follow from the charge passed, and the
+// current density decides whether it comes out bright or burnt.
+
+import { PRODUCTS } from './electrolytes';
+import {
+  FARADAY,
+  SimulationParams,
+  SimulationSample,
+  SimulationState,
+  electrodeReactions,
+} from './simulation';
+
+export type PlatedShape = 'key' | 'coin' | 'spoon';
+
+export interface PlatedObject {
+  id: string;
+  shape: PlatedShape;
+  material: string; // ElectrodeMaterial id of the bare object
+  area: number; // cm², surface that takes the coating
+}
+
+export const PLATED_OBJECTS: PlatedObject[] = [
+  { id: 'key', shape: 'key', material: 'iron', area: 12 },
+  { id: 'coin', shape: 'coin', material: 'copper', area: 8 },
+  { id: 'spoon', shape: 'spoon', material: 'iron', area: 30 },
+];
+
+export const getPlatedObject = (id?: string): PlatedObject | undefined =>
+  PLATED_OBJECTS.find(object => object.id === id);
+
+// Current densities (A/dm²) that give a sound coating of each metal from a
+// plain sulfate or nitrate bath. Above the range the ions near the surface run
+// short: the deposit grows rough, then burnt and powdery.
+const PLATING_RANGES: Record<string, [number, number]> = {
+  Cu: [1, 4],
+  Ni: [1, 5],
+  Zn: [1, 4],
+  Fe: [1, 3],
+  Ag: [0.2, 1],
+};
+// Past this multiple of the top of the range the deposit burns.
+const BURNT_FACTOR = 2;
+
+export type DepositQuality = 'slow' | 'good' | 'rough' | 'burnt';
+
+// Worse qualities come later, so the worst of several is the largest index.
+const QUALITY_ORDER: DepositQuality[] = ['slow', 'good', 'rough', 'burnt'];
+
+// A/dm², the unit platers work in.
+export const currentDensity = (current: number, area: number): number => (current / area) * 100;
+
+export const platingRange = (productId: string): [number, number] => PLATING_RANGES[productId] ?? [1, 4];
+
+export const depositQuality = (productId: string, density: number): DepositQuality => {
+  const [min, max] = platingRange(productId);
+  if (density > max * BURNT_FACTOR) return 'burnt';
+  if (density > max) return 'rough';
+  return density < min ? 'slow' : 'good';
+};
+
+// A coating keeps the marks of the worst current density it grew at.
+export const coatingQuality = (samples: SimulationSample[], productId: string, area: number): DepositQuality =>
+  samples.reduce<DepositQuality>((worst, sample) => {
+    if (sample.current <= 0) return worst;
+    const quality = depositQuality(productId, currentDensity(sample.current, area));
+    return QUALITY_ORDER.indexOf(quality) > QUALITY_ORDER.indexOf(worst) ? quality : worst;
+  }, 'slow');
+
+export interface PlatingResult {
+  productId: string;
+  charge: number; // C
+  theoreticalMass: number; // g, if all the charge had deposited metal
+  mass: number; // g actually deposited
+  thickness: number; // µm, spread evenly over the object
+  efficiency: number; // %, cathode current efficiency
+}
+
+// Coating on the cathode so far, or null when the bath deposits no metal.
+export const platingResult = (state: SimulationState, params: SimulationParams): PlatingResult | null => {
+  const reaction = electrodeReactions(params).cathode;
+  const product = PRODUCTS[reaction.product];
+  if (!product.deposits || !product.density) return null;
+  // m = Q·M/(zF), thickness = m/(ρ·A).
+  const theoreticalMass = (state.charge * product.molarMass) / (reaction.electrons * FARADAY);
+  const mass = state.products[product.id]?.mass ?? 0;
+  return {
+    productId: product.id,
+    charge: state.charge,
+    theoreticalMass,
+    mass,
+    thickness: (mass / (product.density * params.electrodeArea)) * 1e4,
+    efficiency: theoreticalMass > 0 ? (mass / theoreticalMass) * 100 : 0,
+  };
+};
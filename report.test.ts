@@ -0,0 +1,55 @@
+import en from './en';
+import { NumberFormat, formatNumber } from './i18n';
+import { buildReportHtml } from './report';
+import { DEFAULT_PARAMS, advanceSimulation, cellElectrics, createSimulationState } from './simulation';
+import { SavedRun } from './storage';
+
+const n: NumberFormat = (value, digits = 0, trim) => formatNumber(value, digits, '.', trim);
+
+const recordedRun = (seconds: number): SavedRun => {
+  const params = { ...DEFAULT_PARAMS, mode: 'current' as const, current: 0.5 };
+  const { state, samples } = advanceSimulation(createSimulationState(params), params, seconds);
+  return {
+    id: 'run-1',
+    name: 'Water & acid',
+    createdAt: 0,
+    updatedAt: 0,
+    params,
+    state,
+    samples,
+    notes: '',
+    finished: true,
+    report: { student: 'Ana <B>', hypothesis: 'Twice as much H₂ as O₂.', conclusion: '' },
+  };
+};
+
+const report = (run: SavedRun) => buildReportHtml(run, cellElectrics(run.state, run.params), en, n);
+
+describe('lab report', () => {
+  it('escapes what the student wrote', () => {
+    const html = report(recordedRun(10));
+    expect(html).toContain(`<title>${en.report.title} – Water &amp; acid</title>`);
+    expect(html).toContain('Ana &lt;B&gt;');
+    expect(html).toContain('<p>Twice as much H₂ as O₂.</p>');
+  });
+
+  it('leaves ruled lines for the conclusion when it is empty', () => {
+    expect(report(recordedRun(10)).match(/<div class="blank"><\/div>/g)).toHaveLength(5);
+  });
+
+  it('prints every reading of a short run', () => {
+    const html = report(recordedRun(10));
+    expect(html.match(/<tr>/g)).toHaveLength(11); // header and 10 readings
+    expect(html).not.toContain(en.report.dataRows(10, 10));
+  });
+
+  it('thins a long run to 30 rows and says so', () => {
+    const html = report(recordedRun(600));
+    expect(html.match(/<tr>/g)).toHaveLength(31);
+    expect(html).toContain(en.report.dataRows(30, 600));
+  });
+
+  it('works the calculations through once current has flowed', () => {
+    expect(report(recordedRun(60))).toContain('<ol class="calculations">');
+  });
+});
@@ -0,0 +1,195 @@
+// Printable lab report of a run: the apparatus, the half-reactions, the chart,
+// the recorded data and the worked calculations, with the student's name,
+// hypothesis and conclusion. It is one self-contained HTML page, so it prints
+// or saves as a PDF in the browser without a server.
+
+import { ElectrodeSide } from './electrodes';
+import { PRODUCTS, getElectrolyte } from './electrolytes';
+import { buildChartSvg, productSeries, recordedProducts } from './exportData';
+import { calculationInput, currentDrifted, workedCalculations } from './calculations';
+import { cellNotation } from './galvanic';
+import { NumberFormat, byId } from './i18n';
+import { getPlatedObject } from './plating';
+import { Strings } from './ro';
+import { CellElectrics, cellConditions, productAmount, productUnit } from './simulation';
+import { SavedRun } from './storage';
+
+const CELSIUS_OFFSET = 273.15;
+
+// Longer runs are thinned to this many evenly spaced rows to fit a page or two.
+const MAX_TABLE_ROWS = 30;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Keeps the first and the last sample and spreads the rest evenly between them.
+const tableSamples = <T,>(samples: T[]): T[] => {
+  if (samples.length <= MAX_TABLE_ROWS) return samples;
+  const step = (samples.length - 1) / (MAX_TABLE_ROWS - 1);
+  return Array.from({ length: MAX_TABLE_ROWS }, (_, index) => samples[Math.round(index * step)]);
+};
+
+// A field the student filled in, or ruled lines to write on once printed.
+const field = (label: string, text: string, lines: number) =>
+  `<section class="field"><h2>${escapeHtml(label)}</h2>${
+    text.trim()
+      ? `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`
+      : '<div class="blank"></div>'.repeat(lines)
+  }</section>`;
+
+const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+export const buildReportHtml = (run: SavedRun, electrics: CellElectrics, s: Strings, n: NumberFormat): string => {
+  const { params, state, samples } = run;
+  const galvanic = params.cell === 'galvanic';
+  const fields = run.report ?? { student: '', hypothesis: '', conclusion: '' };
+  const materials = { cathode: params.cathodeMaterial, anode: params.anodeMaterial };
+  const materialName = (side: ElectrodeSide) => byId(s.materials, materials[side]);
+  const electrodeLabel = (side: ElectrodeSide) =>
+    galvanic
+      ? s.experiment[side === 'cathode' ? 'galvanicCathode' : 'galvanicAnode'](materialName(side))
+      : s.experiment[side](materialName(side));
+  const conditions = cellConditions(state, params);
+  const platedObject = galvanic ? undefined : getPlatedObject(params.platedObject);
+  const electrolyte = byId(s.electrolytes, getElectrolyte(params.electrolyte).id);
+
+  const setup = [
+    `${s.experiment.cellType}: ${s.experiment.cellTypes[params.cell]}`,
+    galvanic
+      ? s.experiment.cellNotation(cellNotation(materials, params.ionConcentrations, molarity => n(molarity, 2, true)))
+      : s.experiment.solution(electrolyte.name, electrolyte.formula),
+    electrodeLabel('cathode'),
+    electrodeLabel('anode'),
+    ...(platedObject ? [s.experiment.plating(byId(s.platedObjects, platedObject.id), platedObject.area)] : []),
+    galvanic
+      ? `${s.experiment.externalCircuit}: ${s.experiment.loads[params.load]}` +
+        (params.load === 'resistor' ? ` (${n(params.loadResistance)} Ω)` : '')
+      : `${s.experiment.supply}: ${s.experiment.supplyModes[params.mode]}`,
+    s.experiment.readings(n(electrics.voltage, 2), n(electrics.current, 2)),
+    s.experiment.electrodeArea(n(params.electrodeArea)),
+    s.experiment.electrodeDistance(n(params.electrodeDistance, 1)),
+    s.experiment.conditions(
+      n(params.temperature - CELSIUS_OFFSET),
+      n(conditions.temperature - CELSIUS_OFFSET, 1),
+      n(params.pressure, 2),
+    ),
+    `${s.experiment.gasCollection}: ${s.experiment.gasCollectionModes[params.collectOverWater ? 'water' : 'dry']}`,
+    s.report.duration(n(state.time), n(state.charge, 1)),
+  ];
+
+  const reactions = (['cathode', 'anode'] as const).map(side => {
+    const kind = side === 'cathode' ? s.experiment.reduction : s.experiment.oxidation;
+    const shares = electrics.reactions[side]
+      .filter(share => share.current > 0)
+      .map(share =>
+        electrics.current > 0 && share.current < electrics.current
+          ? `${share.reaction.equation} (${n((share.current / electrics.current) * 100)}%)`
+          : share.reaction.equation,
+      );
+    return `${electrodeLabel(side)} – ${kind}: ${shares.join('; ') || s.report.noReaction}`;
+  });
+
+  const productName = (id: string) => byId(s.products, id);
+  const chart = samples.length
+    ? buildChartSvg(productSeries(samples, productName), {
+        title: s.experiment.graphTitle,
+        xLabel: s.experiment.timeAxis,
+        yLabel: s.experiment.productionAxis,
+        width: 700,
+        height: 380,
+      })
+    : `<p>${escapeHtml(s.table.empty)}</p>`;
+
+  const products = recordedProducts(samples);
+  const rows = tableSamples(samples);
+  const header = [
+    't (s)',
+    'U (V)',
+    'I (A)',
+    'Q (C)',
+    ...products.map(id => `${PRODUCTS[id].label} (${productUnit(id)})`),
+    s.table.cathodeMass,
+    s.table.anodeMass,
+  ];
+  const table = samples.length
+    ? `<table><thead><tr>${header.map(title => `<th>${escapeHtml(title)}</th>`).join('')}</tr></thead><tbody>${rows
+        .map(
+          sample =>
+            `<tr>${[
+              String(sample.time),
+              n(sample.voltage, 2),
+              n(sample.current, 3),
+              n(sample.charge, 1),
+              ...products.map(id => n(productAmount(id, sample.products[id]), 2)),
+              n(sample.electrodes.cathode, 4),
+              n(sample.electrodes.anode, 4),
+            ]
+              .map(cell => `<td>${cell}</td>`)
+              .join('')}</tr>`,
+        )
+        .join('')}</tbody></table>${
+        rows.length < samples.length ? `<p class="note">${escapeHtml(s.report.dataRows(rows.length, samples.length))}</p>` : ''
+      }`
+    : `<p>${escapeHtml(s.table.empty)}</p>`;
+
+  const input = calculationInput(state, params, electrics);
+  const calculations =
+    input.current > 0 && input.time > 0
+      ? `<ol class="calculations">${workedCalculations(input)
+          .map(
+            step =>
+              `<li><strong>${escapeHtml(
+                `${s.calculations.kinds[step.kind]}${step.product ? ` – ${productName(step.product)}` : ''}`,
+              )}</strong><br>${escapeHtml(
+                `${step.symbol} = ${step.formula} = ${step.substitution(n)} = ${n(step.value, step.digits)} ${step.unit}`,
+              )}</li>`,
+          )
+          .join('')}</ol>${
+          currentDrifted(input, state.charge)
+            ? `<p class="note">${escapeHtml(s.calculations.currentChanged(n(state.charge, 1)))}</p>`
+            : ''
+        }`
+      : `<p>${escapeHtml(s.calculations.noCurrent)}</p>`;
+
+  const title = `${s.report.title} – ${run.name}`;
+  return `<!DOCTYPE html>
+<html lang="${s.language.locale.slice(0, 2)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { margin: 15mm; }
+  body { font-family: sans-serif; font-size: 11pt; color: #222; max-width: 180mm; margin: 0 auto; }
+  h1 { color: #007BFF; font-size: 18pt; margin-bottom: 4pt; }
+  h2 { color: #007BFF; font-size: 13pt; border-bottom: 1px solid #007BFF; margin-top: 16pt; }
+  section { break-inside: avoid; }
+  .meta { display: flex; justify-content: space-between; gap: 12pt; }
+  .meta span { flex: 1; border-bottom: 1px solid #999; padding-bottom: 2pt; }
+  .blank { border-bottom: 1px solid #bbb; height: 20pt; }
+  svg { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; font-size: 8.5pt; }
+  th, td { border: 1px solid #bbb; padding: 2pt 4pt; text-align: right; }
+  th { background: #F0F8FF; }
+  tr { break-inside: avoid; }
+  .calculations { font-family: serif; }
+  .calculations li { margin-bottom: 6pt; }
+  .note { color: #777; font-size: 9pt; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">
+  <span>${escapeHtml(`${s.report.student}: ${fields.student}`)}</span>
+  <span>${escapeHtml(`${s.report.date}: ${new Date(run.createdAt).toLocaleDateString(s.language.locale)}`)}</span>
+</div>
+${field(s.report.hypothesis, fields.hypothesis, 3)}
+<section><h2>${escapeHtml(s.report.sections.setup)}</h2>${list(setup)}</section>
+<section><h2>${escapeHtml(s.report.sections.reactions)}</h2>${list(reactions)}</section>
+<section><h2>${escapeHtml(s.report.sections.chart)}</h2>${chart}</section>
+<h2>${escapeHtml(s.report.sections.data)}</h2>${table}
+<section><h2>${escapeHtml(s.report.sections.calculations)}</h2>${calculations}</section>
+${run.notes.trim() ? field(s.experiment.notes, run.notes, 0) : ''}
+${field(s.report.conclusion, fields.conclusion, 5)}
+</body>
+</html>`;
+};
@@ -0,0 +1,686 @@
+// Romanian texts, the language the app was written in. Every other catalogue has
+// the shape of this one (Strings), so a text missing from a translation does not
+// compile. Texts with values in them are functions; numbers come in already
+// formatted for the language.
+
+import { GuideChapters, SERIES, formula, fraction, paragraph } from './guide';
+
+// Chapters of the theoretical guide (see guide.ts for their ids and order).
+const chapters: GuideChapters = {
+  semireactii: {
+    title: 'Semireacții',
+    sections: {
+      'electroliza-apei': {
+        title: 'Electroliza apei',
+        blocks: [
+          paragraph(
+            'Curentul electric descompune apa în hidrogen și oxigen. Apa pură conduce foarte slab, de aceea ' +
+              'se adaugă un electrolit (H₂SO₄ sau NaOH) care nu participă la reacții.',
+          ),
+          formula('Catod (−):  2H₂O + 2e⁻ → H₂(g) + 2OH⁻'),
+          formula('Anod (+):  2H₂O → O₂(g) + 4H⁺ + 4e⁻'),
+          formula('Global:  2H₂O(l) → 2H₂(g) + O₂(g)'),
+          paragraph('Pentru fiecare moleculă de O₂ se formează două de H₂: volumul de hidrogen este dublu.'),
+        ],
+      },
+      'catod-si-anod': {
+        title: 'Catod și anod',
+        blocks: [
+          paragraph(
+            'La catod are loc reducerea (o specie primește electroni), la anod oxidarea (o specie cedează ' +
+              'electroni). Numărul de electroni primiți la catod este egal cu cel cedat la anod.',
+          ),
+          formula('Reducere:  Mⁿ⁺ + n e⁻ → M'),
+          formula('Oxidare:  M → Mⁿ⁺ + n e⁻'),
+          paragraph(
+            'La electroliză sursa impune semnele: catodul este polul negativ, anodul cel pozitiv. ' +
+              'Într-o pilă galvanică reacțiile pornesc singure, iar catodul este polul pozitiv.',
+          ),
+        ],
+      },
+      'ordinea-descarcarii': {
+        title: 'Ce se descarcă la electrozi',
+        blocks: [
+          paragraph(
+            'La catod se reduce specia cu potențialul de reducere cel mai mare: Ag⁺ și Cu²⁺ se depun înaintea ' +
+              'hidrogenului, iar Na⁺ nu se reduce niciodată din soluție apoasă; în locul lui se degajă H₂.',
+          ),
+          paragraph(
+            'La anod, un metal activ (Cu, Zn, Fe, Ni, Ag) se dizolvă el însuși. Pe un electrod inert (grafit, ' +
+              'platină) se oxidează I⁻ și, în soluție concentrată, Cl⁻; ionii SO₄²⁻ și NO₃⁻ nu se oxidează, ' +
+              'așa că se degajă O₂ din apă.',
+          ),
+          paragraph(
+            'Supratensiunea poate schimba ordinea: O₂ are nevoie de o tensiune în plus mare, de aceea din ' +
+              'saramură se obține Cl₂, nu O₂.',
+          ),
+        ],
+      },
+    },
+  },
+  'legile-lui-faraday': {
+    title: 'Legile lui Faraday',
+    sections: {
+      'prima-lege': {
+        title: 'Masa depusă',
+        blocks: [
+          paragraph('Cantitatea de substanță transformată la un electrod este proporțională cu sarcina trecută.'),
+          formula('Q = I · t'),
+          formula('m = ', fraction('Q · M', 'z · F')),
+          paragraph(
+            'I este intensitatea (A), t timpul (s), M masa molară (g/mol), z numărul de electroni schimbați ' +
+              'și F = 96485 C/mol constanta lui Faraday, sarcina unui mol de electroni.',
+          ),
+        ],
+      },
+      'viteza-reactiei': {
+        title: 'Viteza reacției',
+        blocks: [
+          paragraph('La curent constant, fiecare produs se formează cu o viteză fixă:'),
+          formula('v = ', fraction('I', 'z · F'), '  (mol/s)'),
+          paragraph('Pentru H₂ la catod z = 2, pentru O₂ la anod z = 4, pentru Cu la catod z = 2.'),
+        ],
+      },
+      'volumul-gazelor': {
+        title: 'Volumul gazelor',
+        blocks: [
+          paragraph('Din numărul de moli, volumul unui gaz rezultă din ecuația de stare a gazelor ideale:'),
+          formula('V = ', fraction('n · R · T', 'P')),
+          paragraph(
+            'R = 0,0821 L·atm/(mol·K). Un gaz colectat peste apă conține și vapori de apă, deci presiunea ' +
+              'lui este mai mică decât cea atmosferică:',
+          ),
+          formula('p(gaz) = P − p(H₂O)'),
+        ],
+      },
+      randamentul: {
+        title: 'Randamentul de curent',
+        blocks: [
+          paragraph(
+            'Nu toată sarcina produce substanța dorită: o parte merge în reacții secundare, de exemplu H₂ ' +
+              'alături de cupru la densități mari de curent.',
+          ),
+          formula('η = ', fraction('m(reală)', 'm(teoretică)'), ' · 100%'),
+        ],
+      },
+    },
+  },
+  'seria-electrochimica': {
+    title: 'Seria electrochimică',
+    sections: {
+      'potentiale-standard': {
+        title: 'Potențiale standard',
+        blocks: [
+          paragraph(
+            'Potențialul standard E° arată cât de ușor se reduce ionul unui metal, față de electrodul de ' +
+              'hidrogen (0 V). Metalele cu E° negativ sunt active și se oxidează ușor; cele cu E° pozitiv ' +
+              'sunt nobile.',
+          ),
+          SERIES,
+          paragraph('Un metal îl scoate din soluție pe oricare aflat după el în serie: Zn + Cu²⁺ → Zn²⁺ + Cu.'),
+        ],
+      },
+      'ecuatia-nernst': {
+        title: 'Ecuația lui Nernst',
+        blocks: [
+          paragraph('Potențialul unui electrod depinde de concentrația ionilor săi și de temperatură:'),
+          formula('E = E° + ', fraction('R · T', 'z · F'), ' · ln[Mⁿ⁺]'),
+          paragraph('La 25 °C, o soluție de zece ori mai diluată coboară potențialul cu 0,059/z V.'),
+        ],
+      },
+      'tem-pilei': {
+        title: 'Tensiunea pilei și tensiunea de descompunere',
+        blocks: [
+          formula('E(pilă) = E(catod) − E(anod)'),
+          paragraph(
+            'Pila Daniell (Zn | Zn²⁺ || Cu²⁺ | Cu) dă 0,34 − (−0,76) = 1,10 V. O t.e.m. negativă înseamnă ' +
+              'că electrozii sunt inversați.',
+          ),
+          paragraph(
+            'Electroliza este reacția pilei dusă invers: sursa trebuie să depășească tensiunea de ' +
+              'descompunere, plus supratensiunile electrozilor și căderea de tensiune I·R pe soluție.',
+          ),
+          formula('U = E(descompunere) + η(catod) + η(anod) + I · R'),
+        ],
+      },
+    },
+  },
+  'puntea-de-sare': {
+    title: 'Puntea de sare',
+    sections: {
+      'rolul-puntii': {
+        title: 'Rolul punții',
+        blocks: [
+          paragraph(
+            'Puntea de sare (un tub cu NaCl sau KCl în gel) închide circuitul între cele două pahare. Prin ea ' +
+              'trec ioni, nu electroni, și păstrează fiecare soluție neutră electric.',
+          ),
+          paragraph(
+            'Dacă puntea se usucă sau este scoasă, ionii nu mai pot trece și curentul se oprește imediat.',
+          ),
+        ],
+      },
+      'numere-de-transport': {
+        title: 'Numere de transport',
+        blocks: [
+          paragraph(
+            'Cationii punții migrează spre catod, anionii spre anod. Fiecare poartă o parte din curent, ' +
+              'numărul de transport t:',
+          ),
+          formula('t₊ + t₋ = 1'),
+          formula('n₊ = ', fraction('t₊ · Q', 'F'), ',   n₋ = ', fraction('t₋ · Q', 'F')),
+        ],
+      },
+    },
+  },
+  galvanizare: {
+    title: 'Galvanizare',
+    sections: {
+      'depunerea-metalului': {
+        title: 'Depunerea metalului',
+        blocks: [
+          paragraph(
+            'Obiectul de acoperit este catodul, într-o baie cu sarea metalului (CuSO₄, NiSO₄). Anodul este ' +
+              'din același metal și se dizolvă, ținând constantă concentrația ionilor din baie.',
+          ),
+          formula('Catod:  Cu²⁺ + 2e⁻ → Cu'),
+          formula('Anod:  Cu → Cu²⁺ + 2e⁻'),
+        ],
+      },
+      'densitatea-de-curent': {
+        title: 'Densitatea de curent',
+        blocks: [
+          formula('j = ', fraction('I', 'A'), '  (A/dm²)'),
+          paragraph(
+            'Fiecare baie are un interval bun. Sub el stratul crește prea încet; peste el ionii nu ajung ' +
+              'destul de repede la catod: depunerea devine aspră, apoi arsă, și se degajă și H₂.',
+          ),
+        ],
+      },
+      'grosimea-stratului': {
+        title: 'Grosimea stratului',
+        blocks: [
+          paragraph('Din masa depusă (legea lui Faraday) și densitatea metalului:'),
+          formula('d = ', fraction('m', 'ρ · A')),
+          paragraph('1 g de cupru (ρ = 8,96 g/cm³) pe 10 cm² dă un strat de circa 11 µm.'),
+        ],
+      },
+    },
+  },
+  'electroliza-industriala': {
+    title: 'Electroliza industrială',
+    sections: {
+      cloralcalii: {
+        title: 'Industria cloralcaliilor',
+        blocks: [
+          paragraph(
+            'Electroliza saramurii dă trei produse: Cl₂ la anod, H₂ și NaOH la catod. O membrană ' +
+              'schimbătoare de ioni lasă să treacă doar Na⁺ și ține clorul departe de hidroxid.',
+          ),
+          formula('2NaCl + 2H₂O → 2NaOH + H₂(g) + Cl₂(g)'),
+        ],
+      },
+      'rafinarea-cuprului': {
+        title: 'Rafinarea cuprului',
+        blocks: [
+          paragraph(
+            'Anodul este cupru impur, catodul o foaie de cupru pur, baia CuSO₄ acidulat. Cuprul trece de pe ' +
+              'anod pe catod; Ag și Au cad sub anod ca nămol anodic, iar Zn și Fe rămân în soluție.',
+          ),
+          paragraph('Se obține cupru de 99,99%, necesar pentru conductorii electrici.'),
+        ],
+      },
+      'electroliza-topiturilor': {
+        title: 'Electroliza topiturilor',
+        blocks: [
+          paragraph(
+            'Metalele foarte active nu se pot obține din soluții apoase, pentru că la catod s-ar degaja H₂. ' +
+              'Se electrolizează sărurile lor topite.',
+          ),
+          formula('2NaCl(l) → 2Na(l) + Cl₂(g)'),
+          paragraph(
+            'Aluminiul se obține din Al₂O₃ dizolvat în criolit topit, la circa 950 °C, cu anozi de grafit ' +
+              'care ard treptat:',
+          ),
+          formula('2Al₂O₃ + 3C → 4Al + 3CO₂'),
+          formula('W = U · I · t'),
+          paragraph('Energia consumată face electroliza rentabilă doar acolo unde curentul electric este ieftin.'),
+        ],
+      },
+    },
+  },
+};
+
+const ro = {
+  language: {
+    name: 'Română',
+    locale: 'ro-RO',
+    decimalSeparator: ',',
+  },
+  common: {
+    back: 'Înapoi',
+    close: 'Închide',
+    cathode: 'catod',
+    anode: 'anod',
+    score: (score: number) => `Scor: ${score}`,
+  },
+  splash: {
+    title: 'Laborator de electroliză',
+    subtitle: 'Simulare experimente de electroliză',
+    start: 'Să începem',
+  },
+  home: {
+    title: 'Electroliza',
+    experiment: 'Deschide Experimentarea',
+    missions: 'Misiuni',
+    history: 'Istoric experimente',
+  },
+  missions: {
+    title: 'Misiuni',
+    goal: (goal: string) => `Obiectiv: ${goal}`,
+    progress: (percent: number) => `Progres: ${percent}%`,
+    playAgain: 'Joacă din nou ▶',
+    start: 'Începe misiunea ▶',
+    collect: (amount: string, unit: string, product: string) => `Colectează ${amount} ${unit} ${product}`,
+    deposit: (mass: string, electrode: string) => `Depune ${mass} g pe ${electrode}`,
+    dissolve: (mass: string, electrode: string) => `Dizolvă ${mass} g din ${electrode}`,
+    within: (objective: string, time: string) => `${objective} în ${time}`,
+    efficiency: (percent: number, product: string) =>
+      `Menține randamentul de curent pentru ${product} peste ${percent}%`,
+  },
+  missionTexts: {
+    'copper-refining': {
+      title: 'Rafinarea cuprului',
+      goal: 'Depune cupru metalic pe catod',
+      description:
+        'Un anod de cupru impur se dizolvă în CuSO₄, iar cuprul pur se depune pe catod. ' +
+        'Depune 0,5 g de cupru în mai puțin de 10 minute. La tensiuni prea mari pe un catod mic se degajă și ' +
+        'hidrogen, care irosește sarcina: menține randamentul de curent al cuprului peste 90%.',
+    },
+    'hydrogen-production': {
+      title: 'Producția de hidrogen',
+      goal: 'Colectează hidrogen gazos',
+      description:
+        'Electrolizează acidul sulfuric diluat pentru a obține 50 mL de hidrogen.',
+    },
+    'chlorine-generation': {
+      title: 'Obținerea clorului',
+      goal: 'Colectează clor din saramură',
+      description:
+        'În saramura concentrată ionii de clorură se oxidează la anod înaintea apei. ' +
+        'Colectează 25 mL de Cl₂ în cel mult 5 minute.',
+    },
+  },
+  history: {
+    title: 'Istoric experimente',
+    loading: 'Se încarcă...',
+    empty: 'Nu ai salvat încă niciun experiment.',
+    confirmDelete: (name: string) => `Ștergi experimentul „${name}”?`,
+    mission: (title: string) => ` · Misiune: ${title}`,
+    duration: (duration: string) => `Durată: ${duration}`,
+    finished: 'Finalizat',
+    inProgress: 'În desfășurare',
+    modified: (date: string) => `Modificat: ${date}`,
+    open: 'Deschide',
+    resume: 'Continuă ▶',
+    rename: 'Redenumește',
+    duplicate: 'Duplică',
+    delete: 'Șterge',
+    copyName: (name: string) => `${name} (copie)`,
+  },
+  experiment: {
+    title: 'Experimentare',
+    guide: 'GHID',
+    pause: '⏸ Pauză',
+    play: '▶ Pornește',
+    reset: '⟲ Resetează',
+    missionProgress: (percent: number) => `Progres misiune: ${percent}%`,
+    cellType: 'Tip celulă',
+    cellTypes: { electrolysis: 'Electroliză', galvanic: 'Pilă galvanică' },
+    cell: 'Pila',
+    cellNotation: (notation: string) => `Pila: ${notation}`,
+    customCell: ' (personalizată)',
+    galvanicCathode: (material: string) => `Catod (+): ${material}`,
+    galvanicAnode: (material: string) => `Anod (−): ${material}`,
+    ionConcentration: {
+      cathode: (ion: string, molarity: string) => `${ion} la catod: ${molarity} M`,
+      anode: (ion: string, molarity: string) => `${ion} la anod: ${molarity} M`,
+    },
+    externalCircuit: 'Circuit exterior',
+    loads: { resistor: 'Rezistor (consumator)', voltmeter: 'Voltmetru' },
+    loadResistance: (resistance: string) => `Rezistența consumatorului: ${resistance} Ω`,
+    solution: (name: string, formula: string) => `Soluție: ${name} – ${formula}`,
+    plating: (object: string, area: number) => `Galvanizare: ${object} (${area} cm²)`,
+    noPlating: 'Galvanizare: catodul este un electrod',
+    plainElectrode: 'Electrod',
+    cathode: (material: string) => `Catod (−): ${material}`,
+    anode: (material: string) => `Anod (+): ${material}`,
+    supply: 'Sursa',
+    supplyModes: { voltage: 'Tensiune constantă', current: 'Curent constant' },
+    voltage: (voltage: string) => `Tensiune: ${voltage} V`,
+    current: (current: string) => `Intensitate: ${current} A`,
+    electrodeArea: (area: string) => `Suprafața electrozilor: ${area} cm²`,
+    electrodeDistance: (distance: string) => `Distanța dintre electrozi: ${distance} cm`,
+    roomTemperature: (celsius: string) => `Temperatura camerei: ${celsius} °C`,
+    pressure: (atm: string, mmHg: string) => `Presiune atmosferică: ${atm} atm (${mmHg} mmHg)`,
+    gasCollection: 'Colectarea gazelor',
+    gasCollectionModes: { dry: 'Gaz uscat', water: 'Colectat peste apă' },
+    saltBridge: 'Puntea de sare',
+    saltBridgeStates: { wet: 'Umedă', dried: 'Uscată', removed: 'Scoasă' },
+    indicator: 'Indicator',
+    noIndicator: 'Fără',
+    graphTitle: 'Viteza de Producție a Gazelor',
+    views: { chart: 'Grafic', table: 'Tabel', sweep: 'Baleiaj' },
+    timeAxis: 'Timp (s)',
+    productionAxis: 'Producție cumulativă',
+    comparedProduct: (product: string, unit: string) => ` de ${product} (${unit})`,
+    currentRun: 'Experimentul curent',
+    defaultRunName: 'Experiment',
+    compare: 'Compară cu experimente salvate',
+    overlaid: (names: string) => `Suprapuse: ${names}`,
+    exportData: 'Export date:',
+    exportFailed: (error: string) => `Exportul a eșuat: ${error}`,
+    exportErrors: {
+      'canvas-unavailable': 'browserul nu poate desena imagini',
+      'chart-not-rendered': 'graficul nu a putut fi desenat',
+      'print-unavailable': 'browserul nu permite tipărirea',
+    },
+    simulationTime: (seconds: number, clock: string, speed: number, paused: boolean) =>
+      `Timp de simulare: ${seconds} s (${clock}, ×${speed}${paused ? ', în pauză' : ''})`,
+    readings: (voltage: string, current: string) => `Tensiune: ${voltage} V | Intensitate: ${current} A`,
+    electrodePotentials: (cathode: string, anode: string) =>
+      `Potențial catod: ${cathode} V | anod: ${anode} V (Nernst)`,
+    emf: (emf: string) => `T.e.m. a pilei: ${emf} V`,
+    terminalVoltage: (voltage: string) => ` | Tensiune la borne: ${voltage} V`,
+    decompositionVoltage: (voltage: string) => `Tensiune de descompunere: ${voltage} V`,
+    overpotentials: (cathode: string, anode: string) => `Supratensiune catod: ${cathode} V | anod: ${anode} V`,
+    resistance: (resistance: string, conductivity: string) =>
+      `Rezistența soluției: ${resistance} Ω (κ = ${conductivity} S/cm)`,
+    cracked:
+      'Paharul s-a fisurat: soluția a fiert aproape în întregime și sticla s-a supraîncălzit. ' +
+      'Circuitul este întrerupt; reia experimentul cu un curent mai mic.',
+    bridgeOpen: 'Circuitul este întrerupt: fără o punte de sare umedă ionii nu pot trece între pahare.',
+    negativeEmf: 'T.e.m. este negativă: metalul mai nobil trebuie să fie catodul. Inversează electrozii.',
+    voltmeterOpen: 'Voltmetrul nu lasă să treacă curent: pila nu se descarcă.',
+    belowDecomposition: 'Tensiunea este sub pragul de descompunere: nu are loc electroliza.',
+    heat: (solution: string, joule: string, loss: string) =>
+      `Temperatura soluției: ${solution} °C | căldură Joule (I²R): ${joule} W, cedată mediului: ${loss} W`,
+    evaporation: (power: string) => `, prin evaporare: ${power} W`,
+    boiling: (boilingPoint: string, atm: string) =>
+      `Soluția fierbe (${boilingPoint} °C la ${atm} atm): apa se evaporă rapid și paharul riscă să se fisureze.`,
+    warm:
+      'Celula se încălzește din cauza pierderilor I²R. Celulele industriale sunt răcite ' +
+      'pentru ca electrolitul să nu fiarbă.',
+    productionRate: (product: string, rate: string, unit: string) =>
+      `Viteza de producere ${product}: ${rate} ${unit}/s`,
+    faradayEfficiency: (efficiencies: string) => `Randament Faraday: ${efficiencies}`,
+    beakers: { cathode: 'Vasul catodului', anode: 'Vasul anodului' },
+    bridgeTransport: (
+      cation: string,
+      cationShare: string,
+      anion: string,
+      anionShare: string,
+      cationMoles: string,
+      anionMoles: string,
+    ) =>
+      `Puntea de sare: t(${cation}) = ${cationShare}, t(${anion}) = ${anionShare} | migrați: ` +
+      `${cationMoles} mmol ${cation} spre catod, ${anionMoles} mmol ${anion} spre anod`,
+    conditions: (room: string, solution: string, atm: string) =>
+      `Condiții: cameră ${room} °C, soluție ${solution} °C, ${atm} atm`,
+    vapourPressure: (water: string, dryGas: string) => ` | p(H₂O) = ${water} mmHg, p(gaz uscat) = ${dryGas} mmHg`,
+    collectedVolume: (product: string, volume: string) => `Volum ${product} colectat: ${volume} mL`,
+    cathodeMass: (symbol: string, mass: string, change: string) => `Masa catod (${symbol}): ${mass} g (${change})`,
+    anodeMass: (symbol: string, mass: string, change: string) => `Masa anod (${symbol}): ${mass} g (${change})`,
+    runName: 'Nume experiment',
+    notes: 'Observații',
+    notesPlaceholder: 'Notează ce observi în timpul experimentului...',
+    save: 'Salvează',
+    saveFailed: (error: string) => `Experimentul nu a putut fi salvat: ${error}`,
+    resume: 'Continuă experimentul',
+    finish: 'Încheie experimentul',
+    link: 'Link către această configurație',
+    bridgeRemoved: 'Punte de sare scoasă',
+    bridgeDried: 'Punte de sare uscată',
+    bridgeIons: (cation: string, anion: string) => `Punte de Sare (${cation} → catod, ${anion} → anod)`,
+    accumulator: 'Acumulator',
+    voltmeterReading: (voltage: string) => `Voltmetru: ${voltage} V`,
+    resistor: (resistance: string) => `Rezistor ${resistance} Ω`,
+    weighCathode: 'Cântărește catodul',
+    weighAnode: 'Cântărește anodul',
+    readingModes: { noisy: 'Citiri realiste (cu zgomot)', exact: 'Citiri exacte' },
+    emptyTubes: 'Golește tuburile',
+    reduction: 'Reducere',
+    oxidation: 'Oxidare',
+    missionComplete: 'Misiune îndeplinită!',
+    missionFailed: 'Misiune eșuată',
+    time: (seconds: number) => `Timp: ${seconds} s`,
+    retry: 'Încearcă din nou',
+    backToMissions: 'Înapoi la misiuni',
+  },
+  instruments: {
+    names: {
+      ammeter: 'Ampermetru',
+      voltmeter: 'Voltmetru',
+      stopwatch: 'Cronometru',
+      balance: 'Balanță analitică',
+      gasTube: 'Tub gradat',
+    },
+    start: 'Start',
+    stop: 'Stop',
+    zero: 'Zero',
+    full: 'plin',
+  },
+  table: {
+    cathodeMass: 'm catod (g)',
+    anodeMass: 'm anod (g)',
+    empty: 'Nu există încă date înregistrate.',
+    page: (page: number, count: number) => `Pagina ${page} / ${count}`,
+  },
+  chart: {
+    all: 'Tot',
+  },
+  faraday: {
+    title: 'Determinarea constantei lui Faraday',
+    noProduct: 'Pornește electroliza: ai nevoie de un gaz colectat sau de un metal depus pe catod.',
+    chooseProduct: '1. Alege produsul măsurat',
+    methods: { gas: 'volum', mass: 'masă depusă' },
+    recordPoints: '2. Înregistrează punctele Q = I·t și n',
+    points: (count: number) => `${count} puncte`,
+    tubeFull: 'Punctele de după umplerea tubului gradat nu pot fi citite; golește tuburile și reia măsurarea.',
+    regression: '3. Dreapta de regresie n = a·Q + b',
+    tooFewPoints: 'Sunt necesare cel puțin 3 puncte cu sarcină diferită.',
+    constants: (electrons: number) => `4. Constantele din pantă (z = ${electrons})`,
+    faraday: (value: string, error: string, percent: string, reference: string) =>
+      `F = 1/(z·a) = (${value} ± ${error}) C/mol — eroare ${percent}% față de ${reference}`,
+    avogadro: (value: string, error: string, percent: string) =>
+      `N_A = F/e = (${value} ± ${error}) mol⁻¹ — eroare ${percent}%`,
+    largeError:
+      'O eroare mare arată că nu toată sarcina a mers în acest produs (randament Faraday sub 100%) ' +
+      'sau că gazul a fost citit în alte condiții.',
+  },
+  sweep: {
+    parameter: 'Parametru baleiat',
+    range: (from: string, to: string, unit: string) => `De la ${from} la ${to} ${unit}`,
+    steps: (count: number) => `${count} pași`,
+    start: 'Pornește baleiajul',
+    progress: (done: number, total: number) => `Măsurate ${done} din ${total} puncte...`,
+    stop: 'Oprește baleiajul',
+    ohmicLine: 'Regiunea ohmică (extrapolată)',
+    caption: (parameter: string, unit: string, quantity: string) => `X: ${parameter} (${unit}) | Y: ${quantity}`,
+    currentAxis: 'Intensitate (A)',
+    rateAxis: 'Viteza de producere',
+    decompositionVoltage: (voltage: string) =>
+      `Tensiune de descompunere (extrapolarea regiunii ohmice): ${voltage} V`,
+    ohmicRegion: (from: string, resistance: string) => `Regiunea ohmică de la ${from} V: R = ${resistance} Ω`,
+    reversibleVoltage: (voltage: string) => `Tensiune de descompunere teoretică: ${voltage} V`,
+    overpotentialNote: 'Diferența față de valoarea teoretică vine din supratensiunile de la electrozi.',
+    noCurrent: 'Curentul nu a pornit: mărește tensiunea finală.',
+    dwell: (seconds: number) => `Fiecare treaptă a fost menținută ${seconds} s înainte de citirea curentului.`,
+  },
+  sweepParameters: {
+    voltage: 'Tensiune',
+    concentration: 'Concentrație',
+    electrodeDistance: 'Distanța dintre electrozi',
+    temperature: 'Temperatură',
+  },
+  plating: {
+    title: (object: string) => `Galvanizare: ${object}`,
+    noMetal: 'Soluția aleasă nu depune niciun metal pe catod. Folosește o baie de CuSO₄ sau NiSO₄.',
+    coating: (object: string, area: number, metal: string) =>
+      `Galvanizare: ${object} (${area} cm²) acoperită cu ${metal.toLowerCase()}`,
+    currentDensity: (density: string, min: string, max: string) =>
+      `Densitate de curent: j = I/A = ${density} A/dm² (recomandat ${min}–${max} A/dm²)`,
+    depositNow: (quality: string) => `Depunere acum: ${quality}`,
+    tooMuchCurrent: (current: string) =>
+      'Curent prea mare pentru suprafața obiectului: ionii nu ajung destul de repede la catod. ' +
+      `Scade intensitatea sub ${current} A.`,
+    masses: (theoretical: string, mass: string, efficiency: string) =>
+      `m teoretic = Q·M/(z·F) = ${theoretical} mg | m depus = ${mass} mg | randament ${efficiency}%`,
+    thickness: (thickness: string, density: string) =>
+      `Grosimea stratului: d = m/(ρ·A) = ${thickness} µm (ρ = ${density} g/cm³)`,
+    appearance: (quality: string) => `Aspectul stratului: ${quality}`,
+  },
+  depositQuality: {
+    slow: 'Uniformă, dar se depune încet',
+    good: 'Lucioasă și aderentă',
+    rough: 'Aspră, mată',
+    burnt: 'Arsă, pulverulentă',
+  },
+  calculations: {
+    title: 'Calculele pas cu pas',
+    duration: 'Durata t',
+    runTime: 'cât a durat experimentul',
+    seconds: (seconds: number) => `${seconds} s`,
+    modes: { working: 'Arată calculele', practice: 'Exersează' },
+    kinds: {
+      charge: 'Sarcina electrică',
+      moles: 'Cantitatea de substanță',
+      volume: 'Volumul gazului',
+      mass: 'Masa',
+      thickness: 'Grosimea stratului',
+      efficiency: 'Randamentul de curent',
+    },
+    noCurrent: 'Nu trece curent: pornește electroliza ca să ai ce calcula.',
+    currentChanged: (charge: string) =>
+      `Curentul s-a schimbat în timpul experimentului, așa că sarcina trecută de fapt este Q = ${charge} C; ` +
+      'randamentul compară cu un curent constant.',
+    data: (current: string, time: string, temperature: string, pressure: string, area: string) =>
+      `Date: I = ${current} A, t = ${time} s, T = ${temperature} K, P = ${pressure} atm, A = ${area} cm², ` +
+      'F = 96485 C/mol, R = 0,0821 L·atm/(mol·K)',
+    answer: 'Răspuns',
+    check: 'Verifică',
+    correct: '✔ Corect',
+    wrong: '✘ Mai încearcă',
+    hint: 'Indiciu',
+    reveal: 'Arată răspunsul',
+    newProblem: 'Problemă nouă',
+    score: (correct: number, total: number) => `${correct} din ${total} pași corecți`,
+  },
+  report: {
+    title: 'Raport de laborator',
+    generate: 'Generează raportul',
+    printHint: 'În fereastra de tipărire alege „Salvează ca PDF” pentru a păstra raportul ca fișier.',
+    failed: (error: string) => `Raportul nu a putut fi generat: ${error}`,
+    student: 'Elev',
+    studentPlaceholder: 'Numele și clasa',
+    date: 'Data',
+    hypothesis: 'Ipoteză',
+    hypothesisPlaceholder: 'Ce crezi că se va întâmpla și de ce?',
+    conclusion: 'Concluzie',
+    conclusionPlaceholder: 'Ce arată rezultatele? S-a confirmat ipoteza?',
+    sections: {
+      setup: 'Montajul experimental',
+      reactions: 'Semireacțiile',
+      chart: 'Graficul',
+      data: 'Datele înregistrate',
+      calculations: 'Calculele',
+    },
+    duration: (seconds: string, charge: string) => `Durata: ${seconds} s, sarcina trecută: ${charge} C`,
+    noReaction: 'nu are loc nicio reacție',
+    dataRows: (shown: number, total: number) => `${shown} din ${total} înregistrări, la intervale egale.`,
+  },
+  guide: {
+    title: 'Ghid Teoretic',
+    contents: 'Cuprins',
+    search: 'Caută în ghid (de ex. tensiune, Faraday, Cl₂)',
+    noResults: (query: string) => `Nimic găsit pentru „${query}”.`,
+    wholeChapter: 'Tot capitolul',
+    live: {
+      title: (time: string) => `În experimentul tău (t = ${time} s)`,
+      cathode: (material: string, equations: string) => `Catod (${material}), reducere: ${equations}`,
+      anode: (material: string, equations: string) => `Anod (${material}), oxidare: ${equations}`,
+      charge: (charge: string, current: string) => `Sarcină trecută: Q = ${charge} C (acum I = ${current} A)`,
+      product: (product: string, millimoles: string, milligrams: string) =>
+        `${product}: n = ${millimoles} mmol, m = ${milligrams} mg`,
+      gasVolume: (millilitres: string) => `, V = ${millilitres} mL`,
+      noProducts: 'Încă nu s-a format niciun produs.',
+      potentials: (cathode: string, anode: string) => `E(catod) = ${cathode} V, E(anod) = ${anode} V`,
+      standardPotential: (couple: string, potential: string) => `E°(${couple}) = ${potential} V`,
+      plating: (object: string, density: string, thickness: string, efficiency: string) =>
+        `${object}: j = ${density} A/dm², d = ${thickness} µm, randament ${efficiency}%`,
+      noPlating: 'Catodul este un electrod obișnuit: alege un obiect de galvanizat.',
+      energy: (voltage: string, charge: string, energy: string) =>
+        `Energie consumată: W ≈ U · Q = ${voltage} V · ${charge} C = ${energy} kJ`,
+    },
+    chapters,
+  },
+  electrolytes: {
+    h2so4: { name: 'Acid sulfuric diluat', formula: 'H₂SO₄ (0,5 M)' },
+    naoh: { name: 'Hidroxid de sodiu', formula: 'NaOH (1 M)' },
+    brine: { name: 'Saramură concentrată', formula: 'NaCl (5 M)' },
+    cuso4: { name: 'Sulfat de cupru', formula: 'CuSO₄ (1 M)' },
+    cucl2: { name: 'Clorură de cupru', formula: 'CuCl₂ (1 M)' },
+    znso4: { name: 'Sulfat de zinc', formula: 'ZnSO₄ (1 M)' },
+    feso4: { name: 'Sulfat feros', formula: 'FeSO₄ (1 M)' },
+    niso4: { name: 'Sulfat de nichel', formula: 'NiSO₄ (1 M)' },
+    agno3: { name: 'Azotat de argint', formula: 'AgNO₃ (1 M)' },
+    ki: { name: 'Iodură de potasiu', formula: 'KI (1 M)' },
+    'molten-nacl': { name: 'Clorură de sodiu topită', formula: 'NaCl (topitură)' },
+  },
+  materials: {
+    graphite: 'Grafit',
+    platinum: 'Platină',
+    copper: 'Cupru',
+    iron: 'Cui de fier',
+    zinc: 'Zinc',
+    nickel: 'Nichel',
+    silver: 'Argint',
+  },
+  products: {
+    H2: 'Hidrogen',
+    O2: 'Oxigen',
+    Cl2: 'Clor',
+    Cu: 'Cupru',
+    Zn: 'Zinc',
+    Fe: 'Fier',
+    Ni: 'Nichel',
+    Ag: 'Argint',
+    Na: 'Sodiu',
+    I2: 'Iod',
+    'Cu2+': 'Ioni de cupru',
+    'Fe2+': 'Ioni de fier',
+    'Ni2+': 'Ioni de nichel',
+    'Zn2+': 'Ioni de zinc',
+    'Ag+': 'Ioni de argint',
+  },
+  indicators: {
+    phenolphthalein: 'Fenolftaleină',
+    universal: 'Indicator universal',
+    litmus: 'Turnesol',
+  },
+  galvanicPresets: {
+    daniell: 'Pila Daniell (Zn–Cu)',
+    'zinc-silver': 'Zn–Ag',
+    'iron-copper': 'Fe–Cu',
+    'copper-silver': 'Cu–Ag',
+  },
+  platedObjects: {
+    key: 'Cheie',
+    coin: 'Monedă',
+    spoon: 'Linguriță',
+  },
+};
+
+export type Strings = typeof ro;
+
+export default ro;
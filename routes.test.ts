@@ -0,0 +1,47 @@
+import { Route, formatRoute, isDeepLink, linkParams, parseRoute } from './routes';
+import { DEFAULT_PARAMS } from './simulation';
+
+describe('routes', () => {
+  it.each<Route>([
+    { screen: 'home' },
+    { screen: 'missions' },
+    { screen: 'missions', id: 'copper-refining' },
+    { screen: 'history', id: 'run 1/2' },
+    { screen: 'history', guide: '' },
+    { screen: 'missions', id: 'copper-refining', guide: 'faraday-laws' },
+    {
+      screen: 'experiment',
+      params: { electrolyte: 'cuso4', voltage: 4.5, temperature: 313.15, ionConcentrations: { cathode: 1, anode: 0.1 } },
+    },
+  ])('reads back %j as written', route => {
+    expect(parseRoute(formatRoute(route))).toEqual({ guide: undefined, ...route });
+  });
+
+  it('writes an empty guide as a bare ?guide', () => {
+    expect(formatRoute({ screen: 'home', guide: '' })).toBe('#/?guide');
+  });
+
+  it('writes temperatures in °C', () => {
+    expect(formatRoute({ screen: 'experiment', params: { temperature: 313.15 } })).toBe('#/experiment?temperature=40');
+  });
+
+  it('clamps numbers to the controls and drops values that do not parse', () => {
+    expect(parseRoute('#/experiment?voltage=99&electrolyte=lava&current=abc').params).toEqual({ voltage: 12 });
+  });
+
+  it('sends unknown screens home', () => {
+    expect(parseRoute('#/nowhere')).toEqual({ screen: 'home', guide: undefined });
+  });
+
+  it('treats only a bare address as not a deep link', () => {
+    expect(isDeepLink('')).toBe(false);
+    expect(isDeepLink('#/')).toBe(false);
+    expect(isDeepLink('#/missions')).toBe(true);
+  });
+
+  it('links only the parameters that differ from a fresh experiment', () => {
+    expect(linkParams({ ...DEFAULT_PARAMS, voltage: DEFAULT_PARAMS.voltage + 1 })).toEqual({
+      voltage: DEFAULT_PARAMS.voltage + 1,
+    });
+  });
+});
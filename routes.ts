@@ -0,0 +1,143 @@
+// Hash-based routes, so links and the browser's history work on a static host
+// such as GitHub Pages:
+//   #/                               home
+//   #/experiment?electrolyte=cuso4…  free experimentation, optionally preset
+//   #/missions, #/missions/<id>      the mission list, one mission
+//   #/history, #/history/<id>        saved runs, one of them reopened
+// Any route takes ?guide, or ?guide=<chapter or section>, to open the guide over it.
+
+import { ELECTROLYTES } from './electrolytes';
+import { ELECTRODE_MATERIALS } from './electrodes';
+import { PLATED_OBJECTS } from './plating';
+import { DEFAULT_PARAMS, SimulationParams } from './simulation';
+
+export type Screen = 'home' | 'experiment' | 'missions' | 'history';
+
+export interface Route {
+  screen: Screen;
+  id?: string; // mission or saved run
+  params?: Partial<SimulationParams>; // setup of a free experiment
+  guide?: string; // open guide: '' at the contents, otherwise a chapter or section id
+}
+
+const CELSIUS_OFFSET = 273.15;
+
+// How one parameter is written in the URL. Values that do not parse, or name
+// something that does not exist, are left out rather than breaking the cell.
+interface ParamCodec {
+  parse: (text: string) => unknown;
+  format: (value: unknown) => string;
+}
+
+const text = (allowed: string[]): ParamCodec => ({
+  parse: value => (allowed.includes(value) ? value : undefined),
+  format: value => String(value),
+});
+
+const formatNumber = (value: number) => String(+value.toFixed(3));
+
+const number = (min: number, max: number): ParamCodec => ({
+  parse: value => {
+    const parsed = Number(value);
+    return value !== '' && Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : undefined;
+  },
+  format: value => formatNumber(value as number),
+});
+
+// Ranges are those of the experiment's own controls.
+const PARAM_CODECS: Partial<Record<keyof SimulationParams, ParamCodec>> = {
+  cell: text(['electrolysis', 'galvanic']),
+  electrolyte: text(ELECTROLYTES.map(electrolyte => electrolyte.id)),
+  cathodeMaterial: text(ELECTRODE_MATERIALS.map(material => material.id)),
+  anodeMaterial: text(ELECTRODE_MATERIALS.map(material => material.id)),
+  platedObject: text(PLATED_OBJECTS.map(object => object.id)),
+  mode: text(['voltage', 'current']),
+  voltage: number(0, 12),
+  current: number(0, 5),
+  electrodeArea: number(1, 50),
+  electrodeDistance: number(1, 15),
+  // Written in °C, which is what a teacher would type.
+  temperature: {
+    parse: value => {
+      const celsius = number(0, 95).parse(value);
+      return celsius === undefined ? undefined : (celsius as number) + CELSIUS_OFFSET;
+    },
+    format: value => formatNumber((value as number) - CELSIUS_OFFSET),
+  },
+  pressure: number(0.5, 1.5),
+  collectOverWater: {
+    parse: value => (value === '1' || value === 'true' ? true : value === '0' || value === 'false' ? false : undefined),
+    format: value => (value ? '1' : '0'),
+  },
+  saltBridge: text(['wet', 'dried', 'removed']),
+  // Galvanic cells: "cathode,anode" molarities.
+  ionConcentrations: {
+    parse: value => {
+      const [cathode, anode] = value.split(',').map(part => number(0.01, 2).parse(part) as number | undefined);
+      return cathode === undefined || anode === undefined ? undefined : { cathode, anode };
+    },
+    format: value => {
+      const { cathode, anode } = value as SimulationParams['ionConcentrations'];
+      return `${formatNumber(cathode)},${formatNumber(anode)}`;
+    },
+  },
+  load: text(['voltmeter', 'resistor']),
+  loadResistance: number(1, 100),
+};
+
+const parseParams = (query: URLSearchParams): Partial<SimulationParams> | undefined => {
+  const params: Partial<SimulationParams> = {};
+  query.forEach((value, key) => {
+    const codec = PARAM_CODECS[key as keyof SimulationParams];
+    const parsed = codec?.parse(value);
+    if (parsed !== undefined) (params as Record<string, unknown>)[key] = parsed;
+  });
+  return Object.keys(params).length ? params : undefined;
+};
+
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#/, '').split('?');
+  const [screen, id] = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const query = new URLSearchParams(search);
+  const guide = query.has('guide') ? query.get('guide') ?? '' : undefined;
+  query.delete('guide');
+  switch (screen) {
+    case 'experiment':
+      return { screen, params: parseParams(query), guide };
+    case 'missions':
+    case 'history':
+      return { screen, id, guide };
+    default:
+      return { screen: 'home', guide };
+  }
+};
+
+export const formatRoute = (route: Route): string => {
+  const path = route.screen === 'home' ? '' : route.screen + (route.id ? `/${encodeURIComponent(route.id)}` : '');
+  const query = new URLSearchParams();
+  Object.entries(route.params ?? {}).forEach(([key, value]) => {
+    const codec = PARAM_CODECS[key as keyof SimulationParams];
+    if (codec && value !== undefined) query.set(key, codec.format(value));
+  });
+  if (route.guide !== undefined) query.set('guide', route.guide);
+  // URLSearchParams writes "guide=" for an empty section; "?guide" reads better.
+  const search = query.toString().replace(/(^|&)guide=$/, '$1guide');
+  return `#/${path}${search ? `?${search}` : ''}`;
+};
+
+// Whether a URL asks for somewhere other than the start, as links shared by a
+// teacher do.
+export const isDeepLink = (hash: string): boolean => hash.replace(/^#\/?/, '') !== '';
+
+// The parameters that differ from a fresh experiment, which is all a link needs.
+export const linkParams = (params: SimulationParams): Partial<SimulationParams> =>
+  Object.fromEntries(
+    Object.entries(params).filter(([key, value]) => {
+      const codec = PARAM_CODECS[key as keyof SimulationParams];
+      const fallback = DEFAULT_PARAMS[key as keyof SimulationParams];
+      return codec && value !== undefined && (fallback === undefined || codec.format(value) !== codec.format(fallback));
+    }),
+  );
+
+// Full address of a route in this deployment, for sharing.
+export const routeUrl = (route: Route): string => window.location.href.split('#')[0] + formatRoute(route);
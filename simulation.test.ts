@@ -0,0 +1,96 @@
+import {
+  DEFAULT_PARAMS,
+  FARADAY,
+  SIMULATION_STEP,
+  SimulationParams,
+  SimulationSample,
+  advanceSimulation,
+  cellElectrics,
+  createSimulationState,
+  stepSimulation,
+} from './simulation';
+import { runToJson, samplesToCsv } from './exportData';
+import { SavedRun } from './storage';
+
+// Dilute sulfuric acid between graphite rods at a constant 0.5 A.
+const params: SimulationParams = { ...DEFAULT_PARAMS, mode: 'current', current: 0.5 };
+
+describe('stepSimulation', () => {
+  it('passes a charge of I·t', () => {
+    const state = stepSimulation(createSimulationState(params), params, 10);
+    expect(state.time).toBe(10);
+    expect(state.charge).toBeCloseTo(0.5 * 10, 6);
+  });
+});
+
+describe('advanceSimulation', () => {
+  it('records one sample per step', () => {
+    const { state, samples } = advanceSimulation(createSimulationState(params), params, 120);
+    expect(samples).toHaveLength(120);
+    expect(samples.map(sample => sample.time)).toEqual(samples.map((_, index) => (index + 1) * SIMULATION_STEP));
+    expect(samples[samples.length - 1].charge).toBe(state.charge);
+  });
+
+  it('makes hydrogen and oxygen in a 2:1 ratio from the charge passed', () => {
+    const { state } = advanceSimulation(createSimulationState(params), params, 600);
+    const hydrogen = state.products.H2.moles;
+    const oxygen = state.products.O2.moles;
+    expect(hydrogen / oxygen).toBeCloseTo(2, 3);
+    expect(hydrogen).toBeCloseTo(state.charge / (2 * FARADAY), 6);
+  });
+
+  it('gives the same run every time', () => {
+    const first = advanceSimulation(createSimulationState(params), params, 300);
+    const second = advanceSimulation(createSimulationState(params), params, 300);
+    expect(second).toEqual(first);
+  });
+});
+
+const galvanic = (cathodeMaterial: string, anodeMaterial: string) => {
+  const params: SimulationParams = { ...DEFAULT_PARAMS, cell: 'galvanic', cathodeMaterial, anodeMaterial };
+  return cellElectrics(createSimulationState(params), params);
+};
+
+describe('galvanic cells', () => {
+  it('rest each half-cell at its own metal couple', () => {
+    const daniell = galvanic('copper', 'zinc');
+    expect(daniell.potentials.cathode).toBeCloseTo(0.34, 2);
+    expect(daniell.potentials.anode).toBeCloseTo(-0.76, 2);
+    expect(daniell.emf).toBeCloseTo(1.1, 2);
+  });
+
+  it('give a negative EMF and no current when built the wrong way round', () => {
+    const reversed = galvanic('zinc', 'copper');
+    expect(reversed.potentials.cathode).toBeCloseTo(-0.76, 2);
+    expect(reversed.emf).toBeCloseTo(-1.1, 2);
+    expect(reversed.current).toBe(0);
+  });
+});
+
+describe('recorded runs', () => {
+  it('export every sample of a long run played in ticks', () => {
+    let state = createSimulationState(params);
+    let samples: SimulationSample[] = [];
+    // An hour at ×600: sixty steps a tick, as the screen advances it.
+    for (let tick = 0; tick < 60; tick++) {
+      const next = advanceSimulation(state, params, 60);
+      state = next.state;
+      samples = samples.concat(next.samples);
+    }
+    const rows = samplesToCsv(samples).split('\n').slice(1);
+    expect(rows).toHaveLength(3600);
+    expect(rows.map(row => Number(row.split(',')[0]))).toEqual(rows.map((_, index) => index + 1));
+    const saved: SavedRun = {
+      id: 'run',
+      name: 'Run',
+      createdAt: 0,
+      updatedAt: 0,
+      params,
+      state,
+      samples,
+      notes: '',
+      finished: true,
+    };
+    expect(JSON.parse(runToJson(saved)).samples).toEqual(samples);
+  });
+});
@@ -0,0 +1,848 @@
+// Headless model of the two-beaker cell, run as an electrolytic or a galvanic cell.
+// All the physics of the lab lives here as plain data and pure functions so the
+// screen, missions, exports and analysis tools read the same numbers instead of
+// re-deriving them from component state.
+
+import {
+  DEFAULT_ELECTROLYTE,
+  Electrolyte,
+  HYDROGEN_ION_REDUCTION,
+  HYDROXIDE_OXIDATION,
+  HalfReaction,
+  ION_CONDUCTIVITY,
+  ION_DIFFUSION,
+  PRODUCTS,
+  WATER_OXIDATION,
+  WATER_REDUCTION,
+  getElectrolyte,
+} from './electrolytes';
+import {
+  DEFAULT_ELECTRODE,
+  ElectrodeSide,
+  getElectrodeMaterial,
+  initialElectrodeMass,
+} from './electrodes';
+import { halfCellComposition, halfCellElectrolyte } from './galvanic';
+
+export const FARADAY = 96485; // C/mol
+export const GAS_CONSTANT = 0.0821; // L·atm/(mol·K)
+export const GAS_CONSTANT_SI = 8.314; // J/(mol·K)
+
+// Below this current the cell is considered idle: no bubbles, no data points.
+export const MIN_CURRENT = 0.001; // A
+
+// The power supply either holds the voltage and lets the cell draw what it
+// needs, or forces a current and reports the voltage that takes.
+export type SupplyMode = 'voltage' | 'current';
+
+// An electrolytic cell is driven by the power supply; a galvanic cell drives
+// its own current through a load, or none through a voltmeter.
+export type CellType = 'electrolysis' | 'galvanic';
+export type LoadType = 'voltmeter' | 'resistor';
+
+// A dried-out or removed salt bridge no longer conducts.
+export type SaltBridgeState = 'wet' | 'dried' | 'removed';
+
+// Experimental parameters applied to the cell.
+export interface SimulationParams {
+  cell: CellType;
+  electrolyte: string; // Electrolyte id, electrolysis only
+  cathodeMaterial: string; // ElectrodeMaterial id
+  anodeMaterial: string;
+  mode: SupplyMode;
+  voltage: number; // V, set point in voltage mode
+  current: number; // A, set point in current mode
+  electrodeArea: number; // cm², immersed area of each electrode
+  electrodeDistance: number; // cm, ion path between the electrodes
+  temperature: number; // K, of the room and of the cell when it is set up
+  pressure: number; // atm, ambient
+  collectOverWater: boolean; // gases collected over water, saturated with vapour
+  saltBridge: SaltBridgeState;
+  // Galvanic cells only: metal ion molarity in each beaker and the external circuit.
+  ionConcentrations: Record<ElectrodeSide, number>; // mol/L
+  load: LoadType;
+  loadResistance: number; // Ω
+  // Electroplating: PlatedObject id of the object hung as the cathode.
+  platedObject?: string;
+}
+
+// Share of an electrode's current carried by one of its reactions.
+export interface ReactionCurrent {
+  reaction: HalfReaction;
+  current: number; // A
+}
+
+// Electrical operating point of the cell.
+export interface CellElectrics {
+  voltage: number; // V across the cell
+  current: number; // A through the cell
+  decompositionVoltage: number; // V, reversible cell voltage
+  emf: number; // V, galvanic cells only (0 when electrolysing)
+  potentials: Record<ElectrodeSide, number>; // V vs SHE, equilibrium (Nernst) potential of each electrode
+  overpotentials: Record<ElectrodeSide, number>; // V, how far the current pulls each electrode off it
+  reactions: Record<ElectrodeSide, ReactionCurrent[]>; // largest share first
+  resistance: number; // Ω, electrolyte and salt bridge
+  conductivity: number; // S/cm
+  heating: number; // W, Joule heat released in the electrolyte and bridge
+}
+
+// The parts of the apparatus that can only change by rebuilding the cell.
+export type CellSetup = Pick<
+  SimulationParams,
+  'cell' | 'electrolyte' | 'cathodeMaterial' | 'anodeMaterial' | 'ionConcentrations' | 'platedObject'
+>;
+
+// Amount of a product collected so far.
+export interface ProductState {
+  moles: number;
+  mass: number; // g
+  volume: number; // mL (gases only, 0 otherwise)
+}
+
+export interface SimulationState {
+  time: number; // s
+  charge: number; // C
+  products: Record<string, ProductState>;
+  // Moles of each species left in the beaker around each electrode.
+  solutions: Record<ElectrodeSide, Record<string, number>>;
+  volumes: Record<ElectrodeSide, number>; // L of solution in each beaker
+  electrodes: Record<ElectrodeSide, number>; // g
+  temperature: number; // K, of the solution, which warms up as current flows
+  cracked: boolean; // a beaker boiled nearly dry and cracked
+}
+
+// One recorded point of a run, used by the chart and the exports.
+export interface SimulationSample {
+  time: number;
+  voltage: number;
+  current: number;
+  charge: number;
+  products: Record<string, ProductState>;
+  electrodes: Record<ElectrodeSide, number>;
+  temperature?: number; // K of the solution; missing in runs saved before it was tracked
+}
+
+export const DEFAULT_PARAMS: SimulationParams = {
+  cell: 'electrolysis',
+  electrolyte: DEFAULT_ELECTROLYTE,
+  cathodeMaterial: DEFAULT_ELECTRODE,
+  anodeMaterial: DEFAULT_ELECTRODE,
+  mode: 'voltage',
+  voltage: 5,
+  current: 0.5,
+  electrodeArea: 10,
+  electrodeDistance: 4,
+  temperature: 298, // K (25°C)
+  pressure: 1, // atm
+  collectOverWater: false,
+  saltBridge: 'wet',
+  ionConcentrations: { cathode: 1, anode: 1 },
+  load: 'resistor',
+  loadResistance: 10,
+};
+
+export const SOLUTION_VOLUME = 0.25; // L of electrolyte in each beaker
+const WATER_ION_PRODUCT = 1e-14; // Kw at 25 °C
+const DIFFUSION_LAYER = 0.01; // cm, unstirred layer at the electrode surface
+const DEFAULT_DIFFUSION = 1e-5; // cm²/s
+const MAX_POLARISATION = 10; // V, search bound for an electrode's potential
+const SALT_BRIDGE_RESISTANCE = 1; // Ω
+// Salt the bridge is soaked in.
+export const SALT_BRIDGE_IONS = { cation: 'Na+', anion: 'Cl-' };
+const MIN_DRY_GAS_PRESSURE = 0.01; // atm, keeps volumes finite near boiling
+const WATER_MOLAR_VOLUME = 0.018; // L/mol
+// Heat balance of the cell, treating both beakers as water.
+const SPECIFIC_HEAT = 4.18; // J/(g·K)
+const HEAT_LOSS_COEFFICIENT = 1.2; // W/K, from both beakers to the room
+const EVAPORATION_COEFFICIENT = 2e-4; // mol/(s·atm) of vapour pressure, per open beaker
+const VAPORISATION_HEAT = 40700; // J/mol
+const CONDUCTIVITY_TEMPERATURE_COEFFICIENT = 0.02; // per K, for most aqueous electrolytes
+const REFERENCE_TEMPERATURE = 298.15; // K, where the ionic conductivities are tabulated
+// A beaker boiled down to this fraction of its solution overheats and cracks.
+export const CRACK_VOLUME_FRACTION = 0.2;
+
+// Solution in the beaker on one side: the same electrolyte in both for
+// electrolysis, each metal's own salt in a galvanic cell.
+export const beakerElectrolyte = (params: SimulationParams, side: ElectrodeSide): Electrolyte =>
+  params.cell === 'galvanic'
+    ? halfCellElectrolyte(side === 'cathode' ? params.cathodeMaterial : params.anodeMaterial)
+    : getElectrolyte(params.electrolyte);
+
+// Main reaction at each electrode: an active anode oxidises itself instead of
+// the electrolyte; in a galvanic cell the cathode's metal ions plate out.
+export const electrodeReactions = (
+  params: SimulationParams,
+): Record<ElectrodeSide, HalfReaction> => ({
+  cathode: beakerElectrolyte(params, 'cathode').cathode,
+  anode: getElectrodeMaterial(params.anodeMaterial).dissolution ?? beakerElectrolyte(params, 'anode').anode,
+});
+
+// Every reaction that can take current at each electrode: the main one, the
+// electrolyte's own and, in water, the reduction and oxidation of water.
+export const electrodeCandidates = (
+  params: SimulationParams,
+): Record<ElectrodeSide, HalfReaction[]> => {
+  const main = electrodeReactions(params);
+  const unique = (reactions: HalfReaction[]) =>
+    reactions.filter((reaction, index) => reactions.indexOf(reaction) === index);
+  const aqueous = (side: ElectrodeSide) => !beakerElectrolyte(params, side).molten;
+  return {
+    cathode: unique([
+      main.cathode,
+      ...(aqueous('cathode') ? [HYDROGEN_ION_REDUCTION, WATER_REDUCTION] : []),
+    ]),
+    anode: unique([
+      main.anode,
+      beakerElectrolyte(params, 'anode').anode,
+      ...(aqueous('anode') ? [WATER_OXIDATION, HYDROXIDE_OXIDATION] : []),
+    ]),
+  };
+};
+
+export const createSimulationState = (params: SimulationParams = DEFAULT_PARAMS): SimulationState => {
+  const { cathode, anode } = electrodeReactions(params);
+  const beaker = (side: ElectrodeSide): Record<string, number> => {
+    const composition = params.cell === 'galvanic'
+      ? halfCellComposition(
+          side === 'cathode' ? params.cathodeMaterial : params.anodeMaterial,
+          params.ionConcentrations[side],
+        )
+      : getElectrolyte(params.electrolyte).composition;
+    const species: Record<string, number> = {};
+    Object.entries(composition).forEach(([formula, concentration]) => {
+      species[formula] = concentration * SOLUTION_VOLUME;
+    });
+    return species;
+  };
+  return {
+    time: 0,
+    charge: 0,
+    products: {
+      [cathode.product]: { moles: 0, mass: 0, volume: 0 },
+      [anode.product]: { moles: 0, mass: 0, volume: 0 },
+    },
+    solutions: { cathode: beaker('cathode'), anode: beaker('anode') },
+    volumes: { cathode: SOLUTION_VOLUME, anode: SOLUTION_VOLUME },
+    electrodes: {
+      cathode: initialElectrodeMass(getElectrodeMaterial(params.cathodeMaterial)),
+      anode: initialElectrodeMass(getElectrodeMaterial(params.anodeMaterial)),
+    },
+    temperature: params.temperature,
+    cracked: false,
+  };
+};
+
+// Specific conductance of the electrolyte from the ions left in it (Kohlrausch),
+// rising by about 2% per kelvin as the solution warms and the ions move faster.
+export const solutionConductivity = (
+  species: Record<string, number>,
+  volume = SOLUTION_VOLUME,
+  temperature = REFERENCE_TEMPERATURE,
+): number =>
+  Math.max(0, 1 + CONDUCTIVITY_TEMPERATURE_COEFFICIENT * (temperature - REFERENCE_TEMPERATURE)) *
+  Object.entries(species).reduce(
+    (total, [formula, moles]) => total + ((ION_CONDUCTIVITY[formula] ?? 0) * (moles / volume)) / 1000,
+    0,
+  );
+
+// Share of the bridge current carried by each of its ions, from their
+// conductivities.
+export const transportNumbers = (): { cation: number; anion: number } => {
+  const cation = ION_CONDUCTIVITY[SALT_BRIDGE_IONS.cation];
+  const anion = ION_CONDUCTIVITY[SALT_BRIDGE_IONS.anion];
+  return { cation: cation / (cation + anion), anion: anion / (cation + anion) };
+};
+
+// Moles of each bridge ion that have crossed into the beakers for a given charge.
+export const bridgeMigration = (charge: number): { cation: number; anion: number } => {
+  const transport = transportNumbers();
+  return {
+    cation: (transport.cation * charge) / FARADAY,
+    anion: (transport.anion * charge) / FARADAY,
+  };
+};
+
+// Molar concentration of a species in one beaker.
+export const concentration = (
+  species: Record<string, number>,
+  formula: string,
+  volume = SOLUTION_VOLUME,
+): number => (species[formula] ?? 0) / volume;
+
+// pH of a beaker from its excess of H⁺ or OH⁻, with water's own ionisation
+// setting the neutral point.
+export const solutionPH = (species: Record<string, number>, volume = SOLUTION_VOLUME): number => {
+  const excess = concentration(species, 'H+', volume) - concentration(species, 'OH-', volume);
+  const hydrogen = (excess + Math.sqrt(excess * excess + 4 * WATER_ION_PRODUCT)) / 2;
+  return -Math.log10(hydrogen);
+};
+
+// Lowest activity used in the Nernst equation, so an exhausted ion gives a very
+// low rather than an infinite potential.
+const MIN_ACTIVITY = 1e-9;
+
+// Activity of a species for the Nernst equation; H⁺ and OH⁻ follow the pH, so
+// a neutral solution still has 10⁻⁷ M of each.
+const activity = (species: Record<string, number>, formula: string, volume: number): number => {
+  if (formula === 'H+') return Math.pow(10, -solutionPH(species, volume));
+  if (formula === 'OH-') return WATER_ION_PRODUCT / Math.pow(10, -solutionPH(species, volume));
+  return Math.max(MIN_ACTIVITY, concentration(species, formula, volume));
+};
+
+// Reduction potential of an electrode's couple at the beaker's concentrations
+// (Nernst). Species changes are per mole of electrons in the direction the
+// electrode runs, so they are reversed for the anode; water counts as pure.
+export const electrodePotential = (
+  reaction: HalfReaction,
+  side: ElectrodeSide,
+  species: Record<string, number>,
+  temperature: number,
+  volume = SOLUTION_VOLUME,
+): number => {
+  const direction = side === 'cathode' ? 1 : -1;
+  const logQuotient = Object.entries(reaction.species).reduce(
+    (total, [formula, perElectron]) =>
+      formula === 'H2O'
+        ? total
+        : total + direction * perElectron * Math.log(activity(species, formula, volume)),
+    0,
+  );
+  return reaction.potential - ((GAS_CONSTANT_SI * temperature) / FARADAY) * logQuotient;
+};
+
+// Largest current density (A/cm²) a reaction can draw before the ions it
+// consumes run short at the electrode surface. Water is never short.
+const limitingCurrentDensity = (
+  reaction: HalfReaction,
+  side: ElectrodeSide,
+  species: Record<string, number>,
+  volume: number,
+): number => {
+  const direction = side === 'cathode' ? 1 : -1;
+  return Object.entries(reaction.species).reduce((limit, [formula, perElectron]) => {
+    if (formula === 'H2O' || direction * perElectron >= 0) return limit;
+    const diffusion = ION_DIFFUSION[formula] ?? DEFAULT_DIFFUSION;
+    const molesPerCm3 = concentration(species, formula, volume) / 1000;
+    return Math.min(limit, (FARADAY * diffusion * molesPerCm3) / (DIFFUSION_LAYER * Math.abs(perElectron)));
+  }, Infinity);
+};
+
+// The reactions at one electrode, each with its equilibrium potential and the
+// current density it carries at a given polarisation.
+const electrodeKinetics = (
+  side: ElectrodeSide,
+  reactions: HalfReaction[],
+  species: Record<string, number>,
+  volume: number,
+  materialId: string,
+  params: SimulationParams,
+) => {
+  const material = getElectrodeMaterial(materialId);
+  const thermal = (2 * GAS_CONSTANT_SI * params.temperature) / FARADAY;
+  const couples = reactions.map(reaction => ({
+    reaction,
+    equilibrium: electrodePotential(reaction, side, species, params.temperature, volume),
+    exchangeCurrent: material.exchangeCurrents?.[reaction.product] ?? reaction.exchangeCurrent,
+    limit: limitingCurrentDensity(reaction, side, species, volume),
+  }));
+  // An electrolysis electrode rests at the couple that reacts first: the most
+  // positive one at a cathode, the most negative at an anode. A galvanic
+  // half-cell is a metal in its own ions and rests at that couple, the main
+  // reaction listed first, whichever way round the cell is built.
+  const direction = side === 'cathode' ? -1 : 1;
+  const rest =
+    params.cell === 'galvanic'
+      ? couples[0].equilibrium
+      : direction * Math.min(...couples.map(couple => direction * couple.equilibrium));
+  // Butler–Volmer with α = 0.5 for the kinetics, in series with mass transport.
+  const densities = (polarisation: number) =>
+    couples.map(couple => {
+      const overpotential = polarisation - direction * (couple.equilibrium - rest);
+      if (overpotential <= 0) return 0;
+      const kinetic = 2 * couple.exchangeCurrent * Math.sinh(overpotential / thermal);
+      return Number.isFinite(couple.limit) ? (kinetic * couple.limit) / (kinetic + couple.limit) : kinetic;
+    });
+  return { rest, direction, densities };
+};
+
+// Bisection steps for the electrode polarisation and the cell current; 30
+// halvings are far below anything the lab displays.
+const BISECTION_STEPS = 30;
+
+// Polarisation of an electrode carrying a given current. The total grows with
+// polarisation, so it is found by bisection, stopping at the search bound.
+const electrodePolarisation = (
+  kinetics: ReturnType<typeof electrodeKinetics>,
+  current: number,
+  area: number,
+): number => {
+  const total = (polarisation: number) =>
+    kinetics.densities(polarisation).reduce((sum, density) => sum + density, 0) * area;
+  if (current <= 0) return 0;
+  if (total(MAX_POLARISATION) < current) return MAX_POLARISATION;
+  let low = 0;
+  let high = MAX_POLARISATION;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (total(mid) > current) high = mid;
+    else low = mid;
+  }
+  return low;
+};
+
+// How an electrode's current splits between its reactions at its polarisation.
+// If even the search bound cannot carry the current, the shares there are
+// scaled up so every coulomb is still accounted for.
+const polariseElectrode = (
+  kinetics: ReturnType<typeof electrodeKinetics>,
+  reactions: HalfReaction[],
+  current: number,
+  area: number,
+): { polarisation: number; shares: ReactionCurrent[] } => {
+  const polarisation = electrodePolarisation(kinetics, current, area);
+  const densities = kinetics.densities(polarisation);
+  const sum = densities.reduce((total, density) => total + density, 0);
+  const shares = reactions
+    .map((reaction, index) => ({
+      reaction,
+      current: sum > 0 ? (current * densities[index]) / sum : index === 0 ? current : 0,
+    }))
+    .sort((a, b) => b.current - a.current);
+  return { polarisation, shares };
+};
+
+// Bisection for the current at which a monotonically increasing voltage
+// requirement meets the available voltage.
+const solveCurrent = (required: (current: number) => number, available: number, high: number) => {
+  let low = 0;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (required(mid) > available) high = mid;
+    else low = mid;
+  }
+  return low;
+};
+
+// Conditions inside the cell: the room's, but at the solution's own temperature.
+export const cellConditions = (state: SimulationState, params: SimulationParams): SimulationParams =>
+  ({ ...params, temperature: state.temperature });
+
+// Solves the cell for its operating point. Each electrode sits at its Nernst
+// potential and is pulled away from it by the current it carries. In voltage
+// mode the current is found by bisection on V = E_anode(I) − E_cathode(I) + I·R,
+// which increases monotonically with I; in current mode the same sum gives the
+// voltage. A galvanic cell drives I through the load until
+// E_cathode(I) − E_anode(I) − I·R = I·R_load.
+const solveCell = (state: SimulationState, params: SimulationParams): CellElectrics => {
+  const conditions = cellConditions(state, params);
+  const candidates = electrodeCandidates(params);
+  const kinetics = {
+    cathode: electrodeKinetics(
+      'cathode',
+      candidates.cathode,
+      state.solutions.cathode,
+      state.volumes.cathode,
+      params.cathodeMaterial,
+      conditions,
+    ),
+    anode: electrodeKinetics(
+      'anode',
+      candidates.anode,
+      state.solutions.anode,
+      state.volumes.anode,
+      params.anodeMaterial,
+      conditions,
+    ),
+  };
+  const potentials = { cathode: kinetics.cathode.rest, anode: kinetics.anode.rest };
+  const galvanic = params.cell === 'galvanic';
+  const decompositionVoltage = galvanic ? 0 : potentials.anode - potentials.cathode;
+  const emf = galvanic ? potentials.cathode - potentials.anode : 0;
+  // The two beakers conduct in series, each over half the ion path.
+  const conductivities = (['cathode', 'anode'] as const).map(side =>
+    solutionConductivity(state.solutions[side], state.volumes[side], state.temperature),
+  );
+  const conductivity = conductivities.every(value => value > 0)
+    ? 2 / conductivities.reduce((total, value) => total + 1 / value, 0)
+    : 0;
+  const resistance = conductivity > 0
+    ? params.electrodeDistance / (conductivity * params.electrodeArea) + SALT_BRIDGE_RESISTANCE
+    : Infinity;
+
+  const anodeMaterial = getElectrodeMaterial(params.anodeMaterial);
+  // A fully dissolved anode, a bridge that no longer conducts or a cracked
+  // beaker breaks the circuit.
+  const circuitClosed =
+    Number.isFinite(resistance) &&
+    params.saltBridge === 'wet' &&
+    !state.cracked &&
+    (!anodeMaterial.dissolution || state.electrodes.anode > 0);
+
+  // Voltage the cell takes at a given current (negative for a galvanic cell,
+  // which gives voltage out instead).
+  const requiredVoltage = (current: number) =>
+    potentials.anode + electrodePolarisation(kinetics.anode, current, params.electrodeArea) -
+    (potentials.cathode - electrodePolarisation(kinetics.cathode, current, params.electrodeArea)) +
+    current * resistance;
+
+  let current = 0;
+  let voltage = params.voltage;
+  if (galvanic) {
+    if (circuitClosed && params.load === 'resistor' && emf > 0) {
+      const totalResistance = resistance + params.loadResistance;
+      current = solveCurrent(
+        value => requiredVoltage(value) + value * params.loadResistance,
+        0,
+        emf / totalResistance,
+      );
+    }
+    // Terminal voltage: the full EMF on a voltmeter, what the load drops otherwise.
+    voltage = !circuitClosed ? 0 : params.load === 'voltmeter' ? emf : current * params.loadResistance;
+  } else if (circuitClosed && params.mode === 'current') {
+    current = params.current;
+    voltage = requiredVoltage(current);
+  } else if (circuitClosed && params.voltage > decompositionVoltage) {
+    current = solveCurrent(requiredVoltage, params.voltage, (params.voltage - decompositionVoltage) / resistance);
+  }
+
+  const electrodes = {
+    cathode: polariseElectrode(kinetics.cathode, candidates.cathode, current, params.electrodeArea),
+    anode: polariseElectrode(kinetics.anode, candidates.anode, current, params.electrodeArea),
+  };
+  return {
+    voltage,
+    current,
+    decompositionVoltage,
+    emf,
+    potentials,
+    overpotentials: { cathode: electrodes.cathode.polarisation, anode: electrodes.anode.polarisation },
+    reactions: { cathode: electrodes.cathode.shares, anode: electrodes.anode.shares },
+    resistance,
+    conductivity,
+    heating: current > 0 ? current * current * resistance : 0,
+  };
+};
+
+// The last operating point solved for each state. Stepping, sampling and the
+// screen all ask for the same one, and solving it is the costly part of a step.
+const electricsCache = new WeakMap<SimulationState, { params: SimulationParams; electrics: CellElectrics }>();
+
+export const cellElectrics = (state: SimulationState, params: SimulationParams): CellElectrics => {
+  const cached = electricsCache.get(state);
+  if (cached?.params === params) return cached.electrics;
+  const electrics = solveCell(state, params);
+  electricsCache.set(state, { params, electrics });
+  return electrics;
+};
+
+export const isElectrolysing = (electrics: CellElectrics): boolean =>
+  electrics.current >= MIN_CURRENT;
+
+// Ideal gas volume in mL.
+export const gasVolume = (moles: number, temperature: number, pressure: number): number =>
+  ((moles * GAS_CONSTANT * temperature) / pressure) * 1000;
+
+// Vapour pressure of water in atm (Antoine equation, valid 1–100 °C).
+export const waterVaporPressure = (temperature: number): number =>
+  Math.pow(10, 8.07131 - 1730.63 / (233.426 + temperature - 273.15)) / 760;
+
+// Temperature in K at which water boils under the given pressure (Antoine, inverted).
+export const boilingPoint = (pressure: number): number =>
+  1730.63 / (8.07131 - Math.log10(pressure * 760)) - 233.426 + 273.15;
+
+// Pressure of the gas itself in the collecting tube: over water, the vapour
+// takes up part of the ambient pressure (Dalton's law).
+export const dryGasPressure = (params: SimulationParams): number =>
+  params.collectOverWater
+    ? Math.max(MIN_DRY_GAS_PRESSURE, params.pressure - waterVaporPressure(params.temperature))
+    : params.pressure;
+
+// Volume in mL the collected gas occupies under the experiment's conditions.
+export const collectedGasVolume = (moles: number, params: SimulationParams): number =>
+  gasVolume(moles, params.temperature, dryGasPressure(params));
+
+const reactionMoles = (charge: number, reaction: HalfReaction) =>
+  charge / (reaction.electrons * FARADAY);
+
+const addProduct = (
+  products: Record<string, ProductState>,
+  reaction: HalfReaction,
+  charge: number,
+) => {
+  const product = PRODUCTS[reaction.product];
+  const moles = (products[product.id]?.moles ?? 0) + reactionMoles(charge, reaction);
+  products[product.id] = { moles, mass: moles * product.molarMass, volume: 0 };
+};
+
+// Gas already in the tubes takes the current temperature and pressure.
+const updateGasVolumes = (products: Record<string, ProductState>, params: SimulationParams) => {
+  Object.entries(products).forEach(([id, product]) => {
+    if (PRODUCTS[id].gas) products[id] = { ...product, volume: collectedGasVolume(product.moles, params) };
+  });
+};
+
+const consumeSpecies = (
+  species: Record<string, number>,
+  reaction: HalfReaction,
+  charge: number,
+) => {
+  const electrons = charge / FARADAY;
+  Object.entries(reaction.species).forEach(([formula, perElectron]) => {
+    const moles = (species[formula] ?? 0) + perElectron * electrons;
+    // H⁺ and OH⁻ may go negative here; neutralise() settles them against water.
+    species[formula] = formula === 'H+' || formula === 'OH-' ? moles : Math.max(0, moles);
+  });
+};
+
+// H⁺ and OH⁻ recombine into water. Taking H⁺ (or OH⁻) once it has run out
+// means splitting water instead, which leaves the other ion behind.
+const neutralise = (species: Record<string, number>) => {
+  const hydrogen = species['H+'] ?? 0;
+  const hydroxide = species['OH-'] ?? 0;
+  if (!hydrogen && !hydroxide) return;
+  const excess = hydrogen - hydroxide;
+  species.H2O = (species.H2O ?? 0) + (hydrogen + hydroxide - Math.abs(excess)) / 2;
+  species['H+'] = Math.max(0, excess);
+  species['OH-'] = Math.max(0, -excess);
+};
+
+// Heat flows of the cell in W: Joule heat in, loss to the room and the latent
+// heat carried off by evaporating water out. The room itself keeps up the slow
+// evaporation at its own temperature, so only the extra counts.
+export interface HeatFlows {
+  heating: number;
+  loss: number;
+  evaporation: number;
+}
+
+// Beakers that hold water which can evaporate.
+const aqueousSides = (state: SimulationState, params: SimulationParams): ElectrodeSide[] =>
+  (['cathode', 'anode'] as const).filter(
+    side => !beakerElectrolyte(params, side).molten && (state.solutions[side].H2O ?? 0) > 0,
+  );
+
+// Moles of water per second evaporating from the open beakers at a given temperature.
+const evaporationRate = (state: SimulationState, params: SimulationParams, temperature: number): number =>
+  aqueousSides(state, params).length *
+  EVAPORATION_COEFFICIENT *
+  waterVaporPressure(Math.min(temperature, boilingPoint(params.pressure)));
+
+export const heatFlows = (
+  state: SimulationState,
+  params: SimulationParams,
+  electrics: CellElectrics = cellElectrics(state, params),
+): HeatFlows => ({
+  heating: electrics.heating,
+  loss: HEAT_LOSS_COEFFICIENT * (state.temperature - params.temperature),
+  evaporation:
+    (evaporationRate(state, params, state.temperature) - evaporationRate(state, params, params.temperature)) *
+    VAPORISATION_HEAT,
+});
+
+// J/K needed to warm the solution in both beakers.
+export const heatCapacity = (state: SimulationState): number =>
+  (state.volumes.cathode + state.volumes.anode) * 1000 * SPECIFIC_HEAT;
+
+export const isBoiling = (state: SimulationState, params: SimulationParams): boolean =>
+  aqueousSides(state, params).length > 0 && state.temperature >= boilingPoint(params.pressure) - 0.05;
+
+// Advances the cell by dt seconds. Pure: the previous state is left untouched.
+export const stepSimulation = (
+  state: SimulationState,
+  params: SimulationParams,
+  dt: number,
+): SimulationState => {
+  const anodeMaterial = getElectrodeMaterial(params.anodeMaterial);
+  const electrics = cellElectrics(state, params);
+  const { current, reactions } = electrics;
+  const charge = current * dt;
+
+  const products = { ...state.products };
+  const solutions = {
+    cathode: { ...state.solutions.cathode },
+    anode: { ...state.solutions.anode },
+  };
+  const electrodes = { ...state.electrodes };
+  // Each reaction gets the charge its share of the current carried.
+  (['cathode', 'anode'] as const).forEach(side =>
+    reactions[side].forEach(share => {
+      const reactionCharge = share.current * dt;
+      if (reactionCharge <= 0) return;
+      const { reaction } = share;
+      addProduct(products, reaction, reactionCharge);
+      consumeSpecies(solutions[side], reaction, reactionCharge);
+      const product = PRODUCTS[reaction.product];
+      if (side === 'cathode' && product.deposits) {
+        electrodes.cathode += reactionMoles(reactionCharge, reaction) * product.molarMass;
+      }
+      if (side === 'anode' && reaction === anodeMaterial.dissolution) {
+        electrodes.anode = Math.max(
+          0,
+          electrodes.anode - reactionMoles(reactionCharge, reaction) * anodeMaterial.molarMass,
+        );
+      }
+    }),
+  );
+  neutralise(solutions.cathode);
+  neutralise(solutions.anode);
+  // The bridge keeps both beakers neutral: its cations drift towards the
+  // cathode, its anions towards the anode.
+  const migration = bridgeMigration(charge);
+  solutions.cathode[SALT_BRIDGE_IONS.cation] =
+    (solutions.cathode[SALT_BRIDGE_IONS.cation] ?? 0) + migration.cation;
+  solutions.anode[SALT_BRIDGE_IONS.anion] =
+    (solutions.anode[SALT_BRIDGE_IONS.anion] ?? 0) + migration.anion;
+
+  // The solution warms by the heat left over once the room and evaporation
+  // have taken their share. It cannot rise past boiling: any heat beyond that
+  // boils water off instead.
+  const flows = heatFlows(state, params, electrics);
+  const capacity = heatCapacity(state);
+  const boiling = boilingPoint(params.pressure);
+  const evaporating = aqueousSides(state, params);
+  let temperature = state.temperature + ((flows.heating - flows.loss - flows.evaporation) * dt) / capacity;
+  let evaporated = evaporationRate(state, params, state.temperature) * dt;
+  if (evaporating.length && temperature > boiling) {
+    evaporated += ((temperature - boiling) * capacity) / VAPORISATION_HEAT;
+    temperature = boiling;
+  }
+  evaporating.forEach(side => {
+    solutions[side].H2O = Math.max(0, solutions[side].H2O - evaporated / evaporating.length);
+  });
+  // The volume follows the water: evaporated, split at the electrodes or
+  // formed by neutralisation.
+  const volumes = { ...state.volumes };
+  (['cathode', 'anode'] as const).forEach(side => {
+    const water = (solutions[side].H2O ?? 0) - (state.solutions[side].H2O ?? 0);
+    volumes[side] = Math.max(0, volumes[side] + water * WATER_MOLAR_VOLUME);
+  });
+  const cracked =
+    state.cracked || evaporating.some(side => volumes[side] < CRACK_VOLUME_FRACTION * SOLUTION_VOLUME);
+  updateGasVolumes(products, { ...params, temperature });
+
+  return {
+    time: state.time + dt,
+    charge: state.charge + charge,
+    products,
+    solutions,
+    volumes,
+    electrodes,
+    temperature,
+    cracked,
+  };
+};
+
+export const sampleSimulation = (
+  state: SimulationState,
+  params: SimulationParams,
+): SimulationSample => {
+  const electrics = cellElectrics(state, params);
+  return {
+    time: state.time,
+    voltage: electrics.voltage,
+    current: electrics.current,
+    charge: state.charge,
+    products: state.products,
+    electrodes: state.electrodes,
+    temperature: state.temperature,
+  };
+};
+
+// Length of one simulation step. Runs always advance in these steps and record
+// a sample after each, so the data is the same at any playback speed.
+export const SIMULATION_STEP = 1; // s
+
+// Advances the cell by up to a number of steps, stopping early once it no
+// longer conducts, and returns the samples recorded on the way.
+export const advanceSimulation = (
+  state: SimulationState,
+  params: SimulationParams,
+  steps: number,
+): { state: SimulationState; samples: SimulationSample[] } => {
+  const samples: SimulationSample[] = [];
+  let next = state;
+  for (let i = 0; i < steps && isElectrolysing(cellElectrics(next, params)); i++) {
+    next = stepSimulation(next, params, SIMULATION_STEP);
+    samples.push(sampleSimulation(next, params));
+  }
+  return { state: next, samples };
+};
+
+// Instantaneous production rate of each product: mL/s for gases, mg/s otherwise.
+// The main products are always listed, at 0 when nothing is forming.
+export const productionRates = (
+  state: SimulationState,
+  params: SimulationParams,
+): Record<string, number> => {
+  const main = electrodeReactions(params);
+  const { reactions } = cellElectrics(state, params);
+  const conditions = cellConditions(state, params);
+  const rates: Record<string, number> = { [main.cathode.product]: 0, [main.anode.product]: 0 };
+  [...reactions.cathode, ...reactions.anode].forEach(({ reaction, current }) => {
+    const product = PRODUCTS[reaction.product];
+    const moles = reactionMoles(current, reaction);
+    rates[product.id] =
+      (rates[product.id] ?? 0) +
+      (product.gas ? collectedGasVolume(moles, conditions) : moles * product.molarMass * 1000);
+  });
+  return rates;
+};
+
+// Gas given off at each electrode in mL/s under the cell's conditions.
+export const gasEvolutionRates = (
+  state: SimulationState,
+  params: SimulationParams,
+): Record<ElectrodeSide, number> => {
+  const { reactions } = cellElectrics(state, params);
+  const conditions = cellConditions(state, params);
+  const sideRate = (side: ElectrodeSide) =>
+    reactions[side]
+      .filter(({ reaction }) => PRODUCTS[reaction.product].gas)
+      .reduce(
+        (total, { reaction, current }) => total + collectedGasVolume(reactionMoles(current, reaction), conditions),
+        0,
+      );
+  return { cathode: sideRate('cathode'), anode: sideRate('anode') };
+};
+
+// Gas collected so far above each electrode in mL: each side's tube holds the
+// gases its own reactions give off.
+export const collectedGasVolumes = (
+  state: SimulationState,
+  params: SimulationParams,
+): Record<ElectrodeSide, number> => {
+  const candidates = electrodeCandidates(params);
+  const sideVolume = (side: ElectrodeSide) =>
+    candidates[side]
+      .map(reaction => reaction.product)
+      .filter((id, index, ids) => PRODUCTS[id].gas && ids.indexOf(id) === index)
+      .reduce((total, id) => total + (state.products[id]?.volume ?? 0), 0);
+  return { cathode: sideVolume('cathode'), anode: sideVolume('anode') };
+};
+
+// Faradaic efficiency of each product so far: the fraction of the charge
+// passed that went into making it. Takes a recorded sample as well as a state.
+export const faradaicEfficiencies = (
+  state: Pick<SimulationState, 'charge' | 'products'>,
+  params: SimulationParams,
+): Record<string, number> => {
+  const candidates = electrodeCandidates(params);
+  const efficiencies: Record<string, number> = {};
+  if (state.charge <= 0) return efficiencies;
+  [...candidates.cathode, ...candidates.anode].forEach(reaction => {
+    const product = state.products[reaction.product];
+    if (product) {
+      efficiencies[reaction.product] = (product.moles * reaction.electrons * FARADAY) / state.charge;
+    }
+  });
+  return efficiencies;
+};
+
+// Amount of a product in the unit the lab reports it in: mL of gas, mg otherwise.
+export const productAmount = (productId: string, state: ProductState | undefined): number => {
+  if (!state) return 0;
+  return PRODUCTS[productId].gas ? state.volume : state.mass * 1000;
+};
+
+export const productUnit = (productId: string): string =>
+  PRODUCTS[productId].gas ? 'mL' : 'mg';
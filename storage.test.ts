@@ -0,0 +1,49 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PARAMS, SOLUTION_VOLUME, createSimulationState } from './simulation';
+import { SavedRun, deleteRun, listRuns, loadRun, saveRun } from './storage';
+
+const run = (id: string): SavedRun => ({
+  id,
+  name: `Run ${id}`,
+  createdAt: 0,
+  updatedAt: 0,
+  params: DEFAULT_PARAMS,
+  state: createSimulationState(DEFAULT_PARAMS),
+  samples: [],
+  notes: '',
+  finished: false,
+});
+
+describe('storage', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('keeps every run when saves overlap', async () => {
+    await Promise.all(['a', 'b', 'c'].map(id => saveRun(run(id))));
+    expect((await listRuns()).map(summary => summary.id).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('applies overlapping saves and deletes in the order they were asked for', async () => {
+    await Promise.all([saveRun(run('a')), saveRun(run('b')), deleteRun('a'), saveRun({ ...run('b'), name: 'Renamed' })]);
+    expect(await listRuns()).toEqual([expect.objectContaining({ id: 'b', name: 'Renamed' })]);
+    expect(await loadRun('a')).toBeNull();
+  });
+
+  it('carries on after a failed write', async () => {
+    jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('QuotaExceededError'));
+    await expect(saveRun(run('a'))).rejects.toThrow('QuotaExceededError');
+    await saveRun(run('b'));
+    expect((await listRuns()).map(summary => summary.id)).toEqual(['b']);
+  });
+
+  it('upgrades a run saved before the beakers were tracked apart', async () => {
+    const { solutions, volumes, temperature, cracked, ...state } = createSimulationState(DEFAULT_PARAMS);
+    const legacy = { ...run('old'), state: { ...state, electrolyte: solutions.cathode } };
+    await AsyncStorage.setItem('electroliza:run:old', JSON.stringify(legacy));
+
+    const loaded = await loadRun('old');
+    expect(loaded?.state.solutions).toEqual({ cathode: solutions.cathode, anode: solutions.cathode });
+    expect(loaded?.state.volumes).toEqual({ cathode: SOLUTION_VOLUME, anode: SOLUTION_VOLUME });
+    expect(loaded?.state.temperature).toBe(DEFAULT_PARAMS.temperature);
+    expect(loaded?.state.cracked).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+// Local persistence for experiment runs and mission progress.
+// AsyncStorage keeps the data in the app sandbox on native and in localStorage
+// on the web build, so saved runs survive closing the page or the app.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MissionResult } from './missions';
+import { SOLUTION_VOLUME, SimulationParams, SimulationSample, SimulationState } from './simulation';
+
+const RUN_INDEX_KEY = 'electroliza:runs';
+const RUN_KEY_PREFIX = 'electroliza:run:';
+const MISSIONS_KEY = 'electroliza:missions';
+const LANGUAGE_KEY = 'electroliza:language';
+
+export interface SavedRun {
+  id: string;
+  name: string;
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+  params: SimulationParams;
+  state: SimulationState;
+  samples: SimulationSample[];
+  notes: string;
+  finished: boolean;
+  missionId?: string;
+  report?: ReportFields;
+}
+
+// What the student writes into the printed lab report.
+export interface ReportFields {
+  student: string;
+  hypothesis: string;
+  conclusion: string;
+}
+
+// What the history list needs, kept in one index so it loads without reading
+// every time series.
+export type RunSummary = Omit<SavedRun, 'state' | 'samples'> & { duration: number };
+
+export const createRunId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const summarise = (run: SavedRun): RunSummary => {
+  const { state, samples, ...summary } = run;
+  return { ...summary, duration: state.time };
+};
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeIndex = (summaries: RunSummary[]) =>
+  AsyncStorage.setItem(RUN_INDEX_KEY, JSON.stringify(summaries));
+
+// Most recently updated first.
+export const listRuns = async (): Promise<RunSummary[]> => {
+  const summaries = await readJson<RunSummary[]>(RUN_INDEX_KEY, []);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Runs saved before the two beakers were tracked apart kept one shared
+// solution; runs from before the thermal model stayed at room temperature.
+const upgradeRun = (run: SavedRun): SavedRun => {
+  const legacy = (run.state as SimulationState & { electrolyte?: Record<string, number> }).electrolyte;
+  const solutions = run.state.solutions ?? (legacy && { cathode: { ...legacy }, anode: { ...legacy } });
+  return {
+    ...run,
+    state: {
+      ...run.state,
+      solutions,
+      volumes: run.state.volumes ?? { cathode: SOLUTION_VOLUME, anode: SOLUTION_VOLUME },
+      temperature: run.state.temperature ?? run.params.temperature,
+      cracked: run.state.cracked ?? false,
+    },
+  };
+};
+
+export const loadRun = async (id: string): Promise<SavedRun | null> => {
+  const run = await readJson<SavedRun | null>(RUN_KEY_PREFIX + id, null);
+  return run && upgradeRun(run);
+};
+
+// Saving and deleting read the index, change it and write it back, so two of
+// them overlapping (an autosave and the Save button) would lose an entry.
+// They run one after another instead; a failed one does not hold up the rest.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const next = pendingWrite.then(write);
+  pendingWrite = next.catch(() => undefined);
+  return next;
+};
+
+export const saveRun = (run: SavedRun): Promise<void> =>
+  queueWrite(async () => {
+    const saved = { ...run, updatedAt: Date.now() };
+    await AsyncStorage.setItem(RUN_KEY_PREFIX + run.id, JSON.stringify(saved));
+    const summaries = await listRuns();
+    await writeIndex([summarise(saved), ...summaries.filter(summary => summary.id !== run.id)]);
+  });
+
+export const deleteRun = (id: string): Promise<void> =>
+  queueWrite(async () => {
+    await AsyncStorage.removeItem(RUN_KEY_PREFIX + id);
+    const summaries = await listRuns();
+    await writeIndex(summaries.filter(summary => summary.id !== id));
+  });
+
+export const renameRun = async (id: string, name: string): Promise<void> => {
+  const run = await loadRun(id);
+  if (run) await saveRun({ ...run, name });
+};
+
+// The copy's name comes from the caller, in the language the student uses.
+export const duplicateRun = async (id: string, copyName: (name: string) => string): Promise<SavedRun | null> => {
+  const run = await loadRun(id);
+  if (!run) return null;
+  const now = Date.now();
+  const copy: SavedRun = { ...run, id: createRunId(), name: copyName(run.name), createdAt: now };
+  await saveRun(copy);
+  return copy;
+};
+
+export const loadMissionResults = (): Promise<Record<string, MissionResult>> =>
+  readJson<Record<string, MissionResult>>(MISSIONS_KEY, {});
+
+export const saveMissionResults = (results: Record<string, MissionResult>): Promise<void> =>
+  AsyncStorage.setItem(MISSIONS_KEY, JSON.stringify(results));
+
+// Language the student picked, or null before they have picked one.
+export const loadLanguage = (): Promise<string | null> => AsyncStorage.getItem(LANGUAGE_KEY);
+
+export const saveLanguage = (language: string): Promise<void> => AsyncStorage.setItem(LANGUAGE_KEY, language);
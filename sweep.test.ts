@@ -0,0 +1,45 @@
+import { DEFAULT_PARAMS } from './simulation';
+import { SweepPoint, SweepSpec, analysePolarisation, runSweep, sweepDwell, sweepPoints } from './sweep';
+
+const voltageSweep: SweepSpec = { parameter: 'voltage', from: 0, to: 6, steps: 20, rate: 0.2 };
+
+describe('sweeps', () => {
+  it('measures steps + 1 evenly spaced values', () => {
+    const points = runSweep(DEFAULT_PARAMS, { ...voltageSweep, parameter: 'electrodeDistance', from: 1, to: 15, steps: 7 });
+    expect(points.map(entry => entry.value)).toEqual([1, 3, 5, 7, 9, 11, 13, 15]);
+  });
+
+  it('gives the same points one at a time as all at once', () => {
+    const stepped: SweepPoint[] = [];
+    for (const entry of sweepPoints(DEFAULT_PARAMS, voltageSweep)) stepped.push(entry);
+    expect(stepped).toEqual(runSweep(DEFAULT_PARAMS, voltageSweep));
+  });
+
+  it('holds each voltage for one step of the ramp, at most a minute', () => {
+    expect(sweepDwell({ ...voltageSweep, rate: 0.1 })).toBe(3);
+    expect(sweepDwell({ ...voltageSweep, rate: 0.001 })).toBe(60);
+  });
+
+  it('draws more current the higher the voltage above decomposition', () => {
+    const points = runSweep(DEFAULT_PARAMS, voltageSweep);
+    expect(points[0].current).toBe(0);
+    expect(points[points.length - 1].current).toBeGreaterThan(points[Math.floor(points.length / 2)].current);
+  });
+
+  it('reads the decomposition voltage and resistance off a straight line', () => {
+    // I = (U − 1.5)/2 above 1.5 V.
+    const points = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(value => ({
+      value,
+      voltage: value,
+      current: Math.max(0, (value - 1.5) / 2),
+      rates: {},
+    }));
+    const analysis = analysePolarisation(points)!;
+    expect(analysis.decompositionVoltage).toBeCloseTo(1.5);
+    expect(analysis.resistance).toBeCloseTo(2);
+  });
+
+  it('finds nothing to read when no current flowed', () => {
+    expect(analysePolarisation(runSweep(DEFAULT_PARAMS, { ...voltageSweep, to: 0.5 }))).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+// Automated sweeps of one parameter of the cell. A voltage sweep ramps the
+// supply at a set rate, letting the cell run at each step before reading the
+// current, which gives the polarisation (I–V) curve. The other sweeps set up a
+// fresh cell at each value and read how fast it makes its products.
+
+import { linearRegression } from './analysis';
+import {
+  SimulationParams,
+  SimulationState,
+  advanceSimulation,
+  cellElectrics,
+  createSimulationState,
+  productionRates,
+} from './simulation';
+
+export type SweepParameter = 'voltage' | 'concentration' | 'electrodeDistance' | 'temperature';
+
+export interface SweepParameterInfo {
+  id: SweepParameter;
+  unit: string;
+  min: number;
+  max: number;
+  from: number; // default range
+  to: number;
+}
+
+export const SWEEP_PARAMETERS: SweepParameterInfo[] = [
+  { id: 'voltage', unit: 'V', min: 0, max: 12, from: 0, to: 6 },
+  // Concentration as a multiple of the solution's standard composition.
+  { id: 'concentration', unit: '× c₀', min: 0.05, max: 3, from: 0.1, to: 2 },
+  { id: 'electrodeDistance', unit: 'cm', min: 1, max: 15, from: 1, to: 15 },
+  { id: 'temperature', unit: '°C', min: 0, max: 95, from: 5, to: 90 },
+];
+
+export const getSweepParameter = (id: SweepParameter): SweepParameterInfo =>
+  SWEEP_PARAMETERS.find(info => info.id === id) ?? SWEEP_PARAMETERS[0];
+
+export interface SweepSpec {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  steps: number; // values after the first, so steps + 1 points
+  rate: number; // V/s, voltage sweeps only
+}
+
+export interface SweepPoint {
+  value: number; // of the swept parameter, in its display unit
+  voltage: number; // V
+  current: number; // A
+  rates: Record<string, number>; // mL/s for gases, mg/s otherwise
+}
+
+const CELSIUS_OFFSET = 273.15;
+// Longest the cell is held at one voltage, however slow the ramp.
+const MAX_DWELL = 60; // s
+
+// Scales every dissolved species (not the water) of both beakers.
+const scaleSolutes = (state: SimulationState, factor: number): SimulationState => {
+  const scale = (species: Record<string, number>) =>
+    Object.fromEntries(
+      Object.entries(species).map(([formula, moles]) => [formula, formula === 'H2O' ? moles : moles * factor]),
+    );
+  return { ...state, solutions: { cathode: scale(state.solutions.cathode), anode: scale(state.solutions.anode) } };
+};
+
+// Fresh cell with the swept parameter at one value.
+const cellAt = (params: SimulationParams, parameter: SweepParameter, value: number) => {
+  switch (parameter) {
+    case 'voltage': {
+      const next = { ...params, mode: 'voltage' as const, voltage: value };
+      return { params: next, state: createSimulationState(next) };
+    }
+    case 'electrodeDistance': {
+      const next = { ...params, electrodeDistance: value };
+      return { params: next, state: createSimulationState(next) };
+    }
+    case 'temperature': {
+      const next = { ...params, temperature: value + CELSIUS_OFFSET };
+      return { params: next, state: createSimulationState(next) };
+    }
+    case 'concentration': {
+      if (params.cell === 'galvanic') {
+        const next = {
+          ...params,
+          ionConcentrations: { cathode: value, anode: value },
+        };
+        return { params: next, state: createSimulationState(next) };
+      }
+      return { params, state: scaleSolutes(createSimulationState(params), value) };
+    }
+  }
+};
+
+const point = (state: SimulationState, params: SimulationParams, value: number): SweepPoint => {
+  const electrics = cellElectrics(state, params);
+  return { value, voltage: electrics.voltage, current: electrics.current, rates: productionRates(state, params) };
+};
+
+// Seconds a voltage sweep holds each step: one step's rise at the sweep rate.
+export const sweepDwell = (spec: SweepSpec): number =>
+  Math.min(MAX_DWELL, Math.max(1, Math.round(Math.abs(spec.to - spec.from) / spec.steps / spec.rate)));
+
+// Measures one point at a time, so a long sweep can be spread over several
+// frames instead of blocking the page.
+export function* sweepPoints(params: SimulationParams, spec: SweepSpec): Generator<SweepPoint, void> {
+  const values = Array.from({ length: spec.steps + 1 }, (_, i) => spec.from + ((spec.to - spec.from) * i) / spec.steps);
+  if (spec.parameter !== 'voltage') {
+    for (const value of values) {
+      const cell = cellAt(params, spec.parameter, value);
+      yield point(cell.state, cell.params, value);
+    }
+    return;
+  }
+  // One cell ramped through the voltages, held at each step for the dwell.
+  const dwell = sweepDwell(spec);
+  let { state } = cellAt(params, 'voltage', spec.from);
+  for (const value of values) {
+    const stepParams = { ...params, mode: 'voltage' as const, voltage: value };
+    state = advanceSimulation(state, stepParams, dwell).state;
+    yield point(state, stepParams, value);
+  }
+}
+
+export const runSweep = (params: SimulationParams, spec: SweepSpec): SweepPoint[] =>
+  Array.from(sweepPoints(params, spec));
+
+// Reading of an I–V curve: the ohmic region is the straight upper part, and
+// extrapolating it back to zero current gives the apparent decomposition
+// voltage; its slope is the cell's resistance.
+export interface PolarisationAnalysis {
+  decompositionVoltage: number; // V
+  resistance: number; // Ω
+  ohmicFrom: number; // V, start of the fitted region
+}
+
+export const analysePolarisation = (points: SweepPoint[]): PolarisationAnalysis | null => {
+  const flowing = points.filter(entry => entry.current > 0);
+  if (flowing.length < 3) return null;
+  const maxCurrent = Math.max(...flowing.map(entry => entry.current));
+  // The upper half of the current range is taken as ohmic.
+  const ohmic = flowing.filter(entry => entry.current >= maxCurrent / 2);
+  const fit = linearRegression(ohmic.map(entry => [entry.value, entry.current]));
+  if (!fit || fit.slope <= 0) return null;
+  return {
+    decompositionVoltage: -fit.intercept / fit.slope,
+    resistance: 1 / fit.slope,
+    ohmicFrom: ohmic[0].value,
+  };
+};